@@ -1,6 +1,25 @@
 import os
 import streamlit.components.v1 as components
 
+from .formats import (
+    from_brat,
+    from_conll,
+    from_label_studio,
+    from_prodigy,
+    from_spacy_doc,
+    from_spacy_json,
+    from_tags,
+    read_jsonl,
+    to_brat,
+    to_conll,
+    to_label_studio,
+    to_prodigy,
+    to_spacy_json,
+    to_tags,
+    whitespace_tokens,
+    write_jsonl,
+)
+
 _RELEASE = True
 
 if not _RELEASE:
@@ -14,7 +33,8 @@ else:
     _component_func = components.declare_component("ner_span_annotator", path=build_dir)
 
 
-def ner_span_annotator(name=None, text=None, spans=None, labels=None, options=None, key=None, default=0):
+def ner_span_annotator(name=None, text=None, spans=None, labels=None, options=None, key=None, default=0, *,
+                       tokens=None, relation_labels=None, relations=None, documents=None, annotations=None):
     """
     Create a new instance of "my_component", passing tokens and spans.
 
@@ -25,20 +45,81 @@ def ner_span_annotator(name=None, text=None, spans=None, labels=None, options=No
     text : str or None
         Text to render.
     spans : list[dict] or None
-        List of spans with keys like {"start_token", "end_token", "label"}.
-    labels : list[str] or None
-        List of labels to work with.
+        List of spans with keys like {"start_token", "end_token", "label"},
+        with offsets into `text` as Python counts them (code points).
+        Optional "score" (0-1) is visualized, "comment" and "kb_id" can be
+        edited, and any other keys (e.g. "id", "source") are returned as-is.
+        With options={"review": True} each span also gets a "status".
+    labels : list[str | dict] or None
+        List of labels to work with, as names or as dicts with "name" and
+        optional "description" (tooltip), "color", "hotkey" and "parent"
+        (groups the label under another one in the picker and legend).
     options : dict or None
-        Additional options to pass to the component.
+        Additional options to pass to the component. "constraints" holds
+        schema rules: "overlap" ("allow", "nested" or "forbid"),
+        "allow_overlap"/"forbid_overlap" label pairs, "forbid_duplicates",
+        "trim" ("whitespace" or "punctuation"), "max_length",
+        "required_labels" and "block_submit". "gazetteer" is a list of
+        {"pattern", "label"} dicts (optionally "regex", "case_sensitive"
+        and "whole_word") whose matches are proposed as pending spans.
+        {"mode": "view"} only displays the spans. "theme" overrides colors
+        and fonts (e.g. {"primary": "#ff4b4b", "font_size": "14px"}) on top
+        of the app's Streamlit theme, and "template" takes displaCy-style
+        "span"/"slice"/"start" markup. "direction" ("ltr", "rtl" or "auto",
+        the default) sets the text direction. "click_to_select" starts
+        with clicking a word adding a span over it. "sync" ("reset",
+        "merge" or "keep_local") says what a new text or spans under the
+        same key do to local edits. "span_list" ("side" or "bottom") adds a
+        sortable, filterable list of the spans with per-label counts.
+        "arc_placement" ("above", the default, or "below") sets where
+        relation arcs are drawn.
+        Unsubmitted edits are kept in the browser, per `key` and text, and
+        offered back after a reload; {"autosave": False} turns this off.
     key : str or None
         An optional key that uniquely identifies this component.
     default : Any
         The initial return value of the component before user interaction.
+    tokens : list[dict] or None
+        Keyword-only, like the arguments after it.
+        Optional spaCy-style tokenization, e.g. {"text", "start", "end", "ws"}.
+        When given, selections and boundary moves snap to token boundaries
+        and returned spans also carry "token_start"/"token_end" indices.
+    relation_labels : list[str] or None
+        Labels for relations between spans. When given, a relation mode lets
+        the user link two spans with a directed, labeled arc.
+    relations : list[dict] or None
+        Existing relations as {"head", "child", "label"}, where "head" and
+        "child" are positions in `spans`.
+    documents : list[dict] or None
+        A queue of documents to annotate one at a time, each
+        {"id", "text", "spans"} (optionally "tokens" and "relations").
+        Replaces `text`/`spans`/`tokens`/`relations`; the annotator can move
+        between documents without losing edits.
+    annotations : dict[str, list[dict]] or None
+        Comparison mode: each annotator's spans, e.g. {"alice": [...],
+        "bob": [...]}, shown together and tagged per annotator. Agreements
+        start accepted; the rest are adjudicated like in review mode.
 
     Returns
     -------
-    Any
-        The component's return value (set via Streamlit.setComponentValue).
+    dict or Any
+        `default` until the component first reports, then a dict with
+        "spans" (the current spans), "relations" (indexing into "spans"),
+        "events" (add/remove/relabel/resize/
+        status/update changes with "before"/"after" spans and a ms
+        "timestamp"), "dirty" (edited since load or last submit), "version"
+        (bumped on every change), "submitted" (Submit pressed since the
+        last edit), "issues" (problems found in spans/tokens/labels/
+        options) and "violations" (broken constraints, with "rule",
+        "span"/"other" positions in "spans" and a "message"). With
+        options={"submit_only": True} the value is only sent when Submit is
+        pressed.
+        In comparison mode also "gold" (the spans accepted, edited or added)
+        and "agreement" (pairwise exact and partial precision/recall/F1, and
+        their means).
+        With `documents`, a dict with "documents" (that dict for every
+        document opened so far, keyed by id), "current" (the id on screen)
+        and "issues" (problems found in `documents`).
     """
     component_value = _component_func(
         name=name,
@@ -46,6 +127,12 @@ def ner_span_annotator(name=None, text=None, spans=None, labels=None, options=No
         spans=spans,
         labels=labels,
         options=options,
+        tokens=tokens,
+        relation_labels=relation_labels,
+        relations=relations,
+        documents=documents,
+        annotations=annotations,
+        draft_key=key,
         key=key,
         default=default
     )
@@ -19,4 +19,7 @@ result = ner_span_annotator(
     labels=["ORG", "GPE"]
 )
 
+if result and result["submitted"]:
+    st.success(f"Submitted {len(result['spans'])} spans")
+
 st.json(result)
\ No newline at end of file
@@ -0,0 +1,386 @@
+"""
+Conversions between the component's spans and common annotation formats.
+
+Readers return a dict with "text", "spans" and, where the format has them,
+"tokens" and "relations", so the result can be passed straight on:
+``ner_span_annotator(**from_brat(text, ann), labels=labels)``.
+Writers take the text plus the "spans" (and "relations") the component
+returns. They mirror ``frontend/src/formats.ts``.
+"""
+import json
+import re
+
+
+def whitespace_tokens(text):
+    """Split on whitespace; the fallback tokenization when no tokens are given."""
+    return [
+        {"text": m.group(), "start": m.start(), "end": m.end(),
+         "ws": m.end() < len(text) and text[m.end()].isspace()}
+        for m in re.finditer(r"\S+", text)
+    ]
+
+
+def _normalize_tokens(tokens):
+    return sorted((t for t in tokens if t["end"] > t["start"]), key=lambda t: t["start"])
+
+
+def _snap_to_tokens(tokens, start, end):
+    """Indices [first, last + 1) of the tokens touched by [start, end), or None."""
+    covered = [i for i, t in enumerate(tokens) if t["start"] < end and t["end"] > start]
+    if not covered:
+        return None
+    return covered[0], covered[-1] + 1
+
+
+def _align_spans(tokens, spans):
+    """Token range of every span in document order, widening spans that end mid-token."""
+    conflicts = []
+    aligned = []
+    for index, span in enumerate(spans):
+        snapped = _snap_to_tokens(tokens, span["start_token"], span["end_token"])
+        if snapped is None:
+            conflicts.append({"index": index, "span": span, "reason": "misaligned",
+                              "message": "covers no token; left out"})
+            continue
+        token_start, token_end = snapped
+        start, end = tokens[token_start]["start"], tokens[token_end - 1]["end"]
+        if (start, end) != (span["start_token"], span["end_token"]):
+            conflicts.append({"index": index, "span": span, "reason": "misaligned",
+                              "message": f"doesn't match token boundaries; widened to [{start}, {end})"})
+        aligned.append((index, token_start, token_end))
+    # Longer spans first, so a nested span is the one reported as overlapping
+    aligned.sort(key=lambda a: (a[1], -a[2]))
+    return aligned, conflicts
+
+
+def to_tags(tokens, spans, scheme="BIO"):
+    """
+    One tag per token, in "BIO" (same as "IOB2") or "BILOU".
+
+    Tags can't overlap, so every span overlapping one already written is
+    left out. Returns ``(tags, conflicts)``, where each conflict is a dict
+    with the span's "index", the "span", a "reason" ("overlap" or
+    "misaligned") and a "message".
+    """
+    tokens = _normalize_tokens(tokens)
+    tags = ["O"] * len(tokens)
+    aligned, conflicts = _align_spans(tokens, spans)
+    for index, token_start, token_end in aligned:
+        span = spans[index]
+        if any(tag != "O" for tag in tags[token_start:token_end]):
+            conflicts.append({"index": index, "span": span, "reason": "overlap",
+                              "message": "overlaps another span; left out"})
+            continue
+        for i in range(token_start, token_end):
+            prefix = "B" if i == token_start else "I"
+            if scheme == "BILOU":
+                if token_end - token_start == 1:
+                    prefix = "U"
+                elif i == token_end - 1:
+                    prefix = "L"
+            tags[i] = f"{prefix}-{span['label']}"
+    conflicts.sort(key=lambda c: c["index"])
+    return tags, conflicts
+
+
+def from_tags(tokens, tags):
+    """
+    Read spans from tags in any of BIO/IOB2, IOB1 or BILOU (also BIOES):
+    an "I-" tag that doesn't continue a span of the same label starts a new one.
+    """
+    tokens = _normalize_tokens(tokens)
+    spans = []
+    current = None  # [label, first, last]
+
+    def close():
+        nonlocal current
+        if current:
+            label, first, last = current
+            spans.append({"start_token": tokens[first]["start"], "end_token": tokens[last]["end"], "label": label})
+        current = None
+
+    for i, tag in enumerate(tags[:len(tokens)]):
+        m = re.match(r"^([BIOLUES])-(.+)$", tag)
+        if not m:
+            close()
+            continue
+        prefix, label = m.groups()
+        if current and current[0] == label and prefix in ("I", "L", "E"):
+            current[2] = i
+        else:
+            close()
+            current = [label, i, i]
+        if prefix in ("L", "U", "E", "S"):
+            close()
+    close()
+    return spans
+
+
+def from_conll(data):
+    """
+    Read CoNLL-2003 style columns: the token first, its NER tag last,
+    sentences separated by blank lines (and -DOCSTART-). Tokens are joined by
+    spaces and sentences by newlines to form the text.
+    """
+    sentences = []
+    words, tags = [], []
+    for line in data.splitlines() + [""]:
+        cols = line.split()
+        if not cols or cols[0] == "-DOCSTART-":
+            if words:
+                sentences.append((words, tags))
+            words, tags = [], []
+            continue
+        words.append(cols[0])
+        tags.append(cols[-1] if len(cols) > 1 else "O")
+
+    text = ""
+    tokens, spans = [], []
+    for words, tags in sentences:
+        if text:
+            text += "\n"
+        sentence = []
+        for i, word in enumerate(words):
+            if i:
+                text += " "
+            sentence.append({"text": word, "start": len(text), "end": len(text) + len(word),
+                             "ws": i < len(words) - 1})
+            text += word
+        tokens.extend(sentence)
+        spans.extend(from_tags(sentence, tags))
+    return {"text": text, "spans": spans, "tokens": tokens}
+
+
+def to_conll(text, spans, tokens=None, scheme="BIO"):
+    """
+    Write CoNLL-2003 style columns (``token _ _ tag``), starting a new
+    sentence wherever the text between two tokens contains a line break.
+    Returns ``(data, conflicts)`` as in `to_tags`.
+    """
+    tokens = _normalize_tokens(tokens or whitespace_tokens(text))
+    tags, conflicts = to_tags(tokens, spans, scheme)
+    lines = []
+    for i, token in enumerate(tokens):
+        if i and "\n" in text[tokens[i - 1]["end"]:token["start"]]:
+            lines.append("")
+        lines.append(f"{token['text']} _ _ {tags[i]}")
+    return "\n".join(lines) + "\n", conflicts
+
+
+def from_spacy_json(data, key="sc"):
+    """Read spaCy's ``Doc.to_json()``: spans from the `key` span group, or from "ents"."""
+    text = data.get("text", "")
+    group = (data.get("spans") or {}).get(key)
+    if group is None:
+        group = data.get("ents", [])
+    spans = [
+        {"start_token": s["start"], "end_token": s["end"], "label": s["label"],
+         **({"kb_id": s["kb_id"]} if s.get("kb_id") else {})}
+        for s in group
+    ]
+    raw_tokens = data.get("tokens", [])
+    tokens = [
+        {"text": text[t["start"]:t["end"]], "start": t["start"], "end": t["end"],
+         "ws": i + 1 < len(raw_tokens) and raw_tokens[i + 1]["start"] > t["end"]}
+        for i, t in enumerate(raw_tokens)
+    ]
+    return {"text": text, "spans": spans, **({"tokens": tokens} if tokens else {})}
+
+
+def from_spacy_doc(doc, key="sc"):
+    """Read a spaCy ``Doc``: spans from ``doc.spans[key]``, or ``doc.ents``, with its tokens."""
+    group = doc.spans[key] if key in doc.spans else doc.ents
+    spans = [
+        {"start_token": s.start_char, "end_token": s.end_char, "label": s.label_,
+         **({"kb_id": s.kb_id_} if s.kb_id_ else {})}
+        for s in group
+    ]
+    tokens = [{"text": t.text, "start": t.idx, "end": t.idx + len(t), "ws": bool(t.whitespace_)} for t in doc]
+    return {"text": doc.text, "spans": spans, "tokens": tokens}
+
+
+def to_spacy_json(text, spans, tokens=None, key="sc"):
+    """
+    Write the part of ``Doc.to_json()`` that ``Doc.from_json()`` needs, with
+    the spans in the `key` span group. Spans must match token boundaries
+    there, so misaligned ones are widened. Returns ``(data, conflicts)``.
+    """
+    tokens = _normalize_tokens(tokens or whitespace_tokens(text))
+    aligned, conflicts = _align_spans(tokens, spans)
+    group = []
+    for index, token_start, token_end in sorted(aligned):
+        span = spans[index]
+        group.append({"start": tokens[token_start]["start"], "end": tokens[token_end - 1]["end"],
+                      "label": span["label"], **({"kb_id": span["kb_id"]} if span.get("kb_id") else {})})
+    data = {
+        "text": text,
+        "tokens": [{"id": i, "start": t["start"], "end": t["end"]} for i, t in enumerate(tokens)],
+        "spans": {key: group},
+    }
+    return data, conflicts
+
+
+def from_brat(text, ann):
+    """
+    Read brat standoff: text-bound annotations (T) become spans, relations
+    (R) relations, AnnotatorNotes comments and normalizations (N) kb_ids.
+    Discontinuous annotations are read as the range from their first to last fragment.
+    """
+    lines = [line.split("\t") for line in ann.splitlines() if line.strip()]
+    spans = []
+    by_id = {}
+    for fields in lines:
+        if not fields[0].startswith("T"):
+            continue
+        label, _, offsets = fields[1].partition(" ")
+        numbers = [int(n) for fragment in offsets.split(";") for n in fragment.split()]
+        by_id[fields[0]] = len(spans)
+        spans.append({"start_token": min(numbers), "end_token": max(numbers), "label": label})
+
+    relations = []
+    for fields in lines:
+        ann_id = fields[0]
+        kind, *args = (fields[1] if len(fields) > 1 else "").split(" ")
+        if ann_id.startswith("R"):
+            ends = dict(arg.split(":", 1) for arg in args if ":" in arg)
+            head, child = by_id.get(ends.get("Arg1")), by_id.get(ends.get("Arg2"))
+            if head is not None and child is not None:
+                relations.append({"head": head, "child": child, "label": kind})
+        elif ann_id.startswith("#") and kind == "AnnotatorNotes" and args and args[0] in by_id:
+            spans[by_id[args[0]]]["comment"] = fields[2] if len(fields) > 2 else ""
+        elif ann_id.startswith("N") and len(args) > 1 and args[0] in by_id:
+            spans[by_id[args[0]]]["kb_id"] = args[1]
+    return {"text": text, "spans": spans, **({"relations": relations} if relations else {})}
+
+
+def to_brat(text, spans, relations=None):
+    """Write brat standoff (.ann); spans crossing line breaks are split into fragments there."""
+    lines, notes = [], []
+    for i, span in enumerate(spans, 1):
+        fragments = []
+        offset = span["start_token"]
+        for part in text[span["start_token"]:span["end_token"]].split("\n"):
+            if part:
+                fragments.append((offset, offset + len(part)))
+            offset += len(part) + 1
+        ranges = ";".join(f"{s} {e}" for s, e in fragments)
+        fragment_text = " ".join(text[s:e] for s, e in fragments)
+        lines.append(f"T{i}\t{span['label']} {ranges}\t{fragment_text}")
+        if span.get("comment"):
+            notes.append(f"#{len(notes) + 1}\tAnnotatorNotes T{i}\t{span['comment']}")
+        if span.get("kb_id"):
+            lines.append(f"N{i}\tReference T{i} {span['kb_id']}\t{fragment_text}")
+    for i, r in enumerate(relations or [], 1):
+        lines.append(f"R{i}\t{r['label']} Arg1:T{r['head'] + 1} Arg2:T{r['child'] + 1}")
+    return "".join(line + "\n" for line in lines + notes)
+
+
+def from_prodigy(record):
+    """Read a Prodigy task; relations are matched to spans through their "head_span"/"child_span"."""
+    spans = []
+    for s in record.get("spans", []):
+        extra = {k: v for k, v in s.items() if k not in ("start", "end", "label", "token_start", "token_end")}
+        spans.append({**extra, "start_token": s["start"], "end_token": s["end"], "label": s["label"]})
+    tokens = [{"text": t["text"], "start": t["start"], "end": t["end"], "ws": t.get("ws")}
+              for t in record.get("tokens", [])]
+
+    def find(s):
+        for i, x in enumerate(spans):
+            if s and (x["start_token"], x["end_token"], x["label"]) == (s.get("start"), s.get("end"), s.get("label")):
+                return i
+        return None
+
+    relations = []
+    for r in record.get("relations", []):
+        head, child = find(r.get("head_span")), find(r.get("child_span"))
+        if head is not None and child is not None:
+            relations.append({"head": head, "child": child, "label": r["label"]})
+    return {
+        "text": record.get("text", ""),
+        "spans": spans,
+        **({"tokens": tokens} if tokens else {}),
+        **({"relations": relations} if relations else {}),
+    }
+
+
+def to_prodigy(text, spans, tokens=None, relations=None):
+    """
+    Write a Prodigy task with tokens and token-indexed spans; a relation's
+    "head"/"child" are the last tokens of its spans.
+    """
+    tokens = _normalize_tokens(tokens or whitespace_tokens(text))
+    out_spans = []
+    for span in spans:
+        out = {"start": span["start_token"], "end": span["end_token"], "label": span["label"]}
+        snapped = _snap_to_tokens(tokens, span["start_token"], span["end_token"])
+        if snapped:
+            out["token_start"], out["token_end"] = snapped[0], snapped[1] - 1
+        out_spans.append(out)
+    out_relations = [
+        {"head": out_spans[r["head"]].get("token_end"), "child": out_spans[r["child"]].get("token_end"),
+         "label": r["label"], "head_span": out_spans[r["head"]], "child_span": out_spans[r["child"]]}
+        for r in relations or []
+    ]
+    return {
+        "text": text,
+        "tokens": [{"text": t["text"], "start": t["start"], "end": t["end"], "id": i, "ws": bool(t.get("ws"))}
+                   for i, t in enumerate(tokens)],
+        "spans": out_spans,
+        **({"relations": out_relations} if out_relations else {}),
+    }
+
+
+def from_label_studio(task, text_key="text"):
+    """
+    Read a Label Studio task: the first annotation's result, or the first
+    prediction's (with scores) when the task isn't annotated yet.
+    """
+    source = (task.get("annotations") or task.get("predictions") or [{}])[0]
+    results = source.get("result", [])
+    spans = []
+    by_id = {}
+    for r in results:
+        value = r.get("value") or {}
+        if r.get("type") == "relation" or not isinstance(value.get("start"), int) or not value.get("labels"):
+            continue
+        by_id[r.get("id")] = len(spans)
+        span = {"start_token": value["start"], "end_token": value["end"], "label": value["labels"][0]}
+        if isinstance(r.get("score"), (int, float)):
+            span["score"] = r["score"]
+        spans.append(span)
+
+    relations = []
+    for r in results:
+        if r.get("type") != "relation":
+            continue
+        head, child = by_id.get(r.get("from_id")), by_id.get(r.get("to_id"))
+        if head is None or child is None:
+            continue
+        if r.get("direction") == "left":
+            head, child = child, head
+        relations.append({"head": head, "child": child, "label": (r.get("labels") or [""])[0]})
+    text = task.get("data", {}).get(text_key, "")
+    return {"text": text, "spans": spans, **({"relations": relations} if relations else {})}
+
+
+def to_label_studio(text, spans, relations=None, from_name="label", to_name="text", text_key="text"):
+    """Write a Label Studio task with the spans and relations as one annotation."""
+    result = [
+        {"id": f"span-{i}", "from_name": from_name, "to_name": to_name, "type": "labels",
+         "value": {"start": s["start_token"], "end": s["end_token"],
+                   "text": text[s["start_token"]:s["end_token"]], "labels": [s["label"]]}}
+        for i, s in enumerate(spans)
+    ]
+    for r in relations or []:
+        result.append({"type": "relation", "from_id": f"span-{r['head']}", "to_id": f"span-{r['child']}",
+                       "direction": "right", "labels": [r["label"]] if r["label"] else []})
+    return {"data": {text_key: text}, "annotations": [{"result": result}]}
+
+
+def read_jsonl(data):
+    """Parse JSON Lines, skipping blank lines."""
+    return [json.loads(line) for line in data.splitlines() if line.strip()]
+
+
+def write_jsonl(records):
+    return "".join(json.dumps(record, ensure_ascii=False) + "\n" for record in records)
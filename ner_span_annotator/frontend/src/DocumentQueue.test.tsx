@@ -0,0 +1,68 @@
+import React from "react"
+import { fireEvent, render, screen } from "@testing-library/react"
+import DocumentQueue, { DocumentQueueProps } from "./DocumentQueue"
+import { DocumentsValue } from "./events"
+import { QueueDocument } from "./types"
+
+const DOCUMENTS: QueueDocument[] = [
+    { id: "a", text: "Ada met Bob.", spans: [{ start_token: 0, end_token: 3, label: "PER" }] },
+    { id: "b", text: "Bob left." },
+]
+
+function setup(props: Partial<DocumentQueueProps> = {}) {
+    const onChange = jest.fn()
+    const utils = render(<DocumentQueue documents={DOCUMENTS} labels={["PER"]} onChange={onChange} {...props} />)
+    const value = (): DocumentsValue => onChange.mock.calls[onChange.mock.calls.length - 1][0]
+    return { ...utils, onChange, value }
+}
+
+test("lists the problems with the documents it was given", () => {
+    const { value } = setup({ documents: [DOCUMENTS[0], "Bob left." as unknown as QueueDocument, DOCUMENTS[0]] })
+    expect(screen.getByText("⚠ 2 problems in documents")).toBeInTheDocument()
+    expect(value().issues.map(i => [i.index, i.message])).toEqual([
+        [1, "expected a dict, got string"],
+        [2, 'duplicate id "a"'],
+    ])
+    expect(screen.getByText("1 / 1")).toBeInTheDocument()
+})
+
+test("reports the problems with a document's spans once it is opened", () => {
+    const documents = [DOCUMENTS[0], { id: "b", text: "Bob left.", spans: [{ start_token: 0, end_token: 3, label: "ORG" }] }]
+    const { value } = setup({ documents })
+    expect(Object.keys(value().documents)).toEqual(["a"])
+
+    fireEvent.click(screen.getByRole("button", { name: "Next ›" }))
+    expect(value().current).toBe("b")
+    expect(value().documents.b.spans).toEqual([])
+    expect(value().documents.b.issues.map(i => i.message)).toEqual(['unknown label "ORG"'])
+})
+
+test("shows an empty queue without documents", () => {
+    setup({ documents: [] })
+    expect(screen.getByText("No documents to annotate.")).toBeInTheDocument()
+})
+
+test("keeps a document's edits while another one is open", () => {
+    const { value } = setup()
+    fireEvent.click(screen.getByRole("button", { name: "Remove span" }))
+    expect(screen.getByTitle("Unsubmitted edits")).toBeInTheDocument()
+    const option = screen.getByRole("option", { name: "1. a •" })
+
+    fireEvent.change(option.closest("select") as HTMLSelectElement, { target: { value: "b" } })
+    expect(screen.getByText("2 / 2")).toBeInTheDocument()
+    expect(screen.queryByTitle("Unsubmitted edits")).not.toBeInTheDocument()
+    fireEvent.click(screen.getByRole("button", { name: "‹ Prev" }))
+    expect(value().current).toBe("a")
+    expect(value().documents.a.spans).toEqual([])
+    expect(value().documents.a.dirty).toBe(true)
+})
+
+test("counts submitted documents", () => {
+    const { value } = setup()
+    expect(screen.getByText("0 submitted")).toBeInTheDocument()
+    fireEvent.click(screen.getByRole("button", { name: "Submit" }))
+    expect(screen.getByText("1 submitted")).toBeInTheDocument()
+    expect(screen.getByTitle("1 of 2 submitted")).toBeInTheDocument()
+    expect(screen.getByRole("option", { name: "1. a ✓" })).toBeInTheDocument()
+    expect(value().documents.a.submitted).toBe(true)
+})
@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import NerSpanAnnotator from "./NerSpanAnnotator"
+import { AnnotationValue, DocumentsValue } from "./events"
+import { validateDocuments } from "./validation"
+import { QueueDocument, RendererOptions } from "./types"
+import { ThemeVars, themeStyle, themeVar } from "./theme"
+
+/**
+ * A queue of documents annotated one at a time. Every document opened stays
+ * mounted (hidden while another one is shown), so its spans, undo history
+ * and events survive switching back and forth.
+ */
+export interface DocumentQueueProps {
+    documents: QueueDocument[]
+    labels: string[]
+    options?: RendererOptions
+    relationLabels?: string[]
+    onChange?: (value: DocumentsValue) => void
+    theme?: Partial<ThemeVars>
+    draftKey?: string
+}
+
+function DocumentQueue({
+    documents: rawDocuments,
+    labels,
+    options,
+    relationLabels,
+    onChange,
+    theme,
+    draftKey,
+}: DocumentQueueProps) {
+    const { documents, issues: documentIssues } = useMemo(() => validateDocuments(rawDocuments), [rawDocuments])
+    // Fixed at load, like a single document's issues
+    const [issues] = useState(documentIssues)
+
+    const [currentId, setCurrentId] = useState(() => (documents.length ? documents[0].id : ""))
+    const [opened, setOpened] = useState<string[]>(() => (documents.length ? [documents[0].id] : []))
+    const [values, setValues] = useState<Record<string, AnnotationValue>>({})
+
+    const position = Math.max(
+        documents.findIndex(d => d.id === currentId),
+        0
+    )
+    const current = documents[position]
+    const reportedId = current ? current.id : ""
+
+    const open = (index: number) => {
+        const doc = documents[index]
+        if (!doc) return
+        setCurrentId(doc.id)
+        setOpened(ids => (ids.includes(doc.id) ? ids : [...ids, doc.id]))
+    }
+
+    const handleChange = useCallback(
+        (id: string, value: AnnotationValue) => setValues(prev => ({ ...prev, [id]: value })),
+        []
+    )
+
+    // Report once a document has, so unopened ones don't send an empty value
+    const onChangeRef = useRef(onChange)
+    onChangeRef.current = onChange
+    useEffect(() => {
+        if (!Object.keys(values).length) return
+        onChangeRef.current?.({ documents: values, current: reportedId, issues })
+    }, [values, reportedId, issues])
+
+    const submittedCount = documents.filter(d => values[d.id]?.submitted).length
+    const marker = (id: string) => (values[id]?.submitted ? "✓" : values[id]?.dirty ? "•" : "")
+
+    if (!current) {
+        return <div className="document-queue-empty">No documents to annotate.</div>
+    }
+
+    return (
+        // The annotators inherit the theme from here
+        <div className="document-queue" style={themeStyle({ ...theme, ...options?.theme })}>
+            <style>
+                {`
+      .document-queue {
+        color: ${themeVar("text")};
+        font-family: ${themeVar("font")};
+      }
+      .queue-nav {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        margin-bottom: 6px;
+        font-size: 0.9em;
+      }
+      .queue-nav select {
+        max-width: 40%;
+      }
+      .queue-progress {
+        flex: 1;
+        height: 6px;
+        background: ${themeVar("subtle")};
+        border-radius: 3px;
+        overflow: hidden;
+      }
+      .queue-progress > div {
+        height: 100%;
+        background: ${themeVar("success")};
+      }
+      .queue-dirty {
+        color: ${themeVar("warning")};
+      }
+    `}
+            </style>
+            <div className="queue-nav">
+                <button className="history-btn" onClick={() => open(position - 1)} disabled={position === 0}>
+                    ‹ Prev
+                </button>
+                <select value={current.id} onChange={e => open(documents.findIndex(d => d.id === e.target.value))}>
+                    {documents.map((doc, i) => (
+                        <option key={doc.id} value={doc.id}>
+                            {i + 1}. {doc.id} {marker(doc.id)}
+                        </option>
+                    ))}
+                </select>
+                <button
+                    className="history-btn"
+                    onClick={() => open(position + 1)}
+                    disabled={position === documents.length - 1}
+                >
+                    Next ›
+                </button>
+                <span>
+                    {position + 1} / {documents.length}
+                    {values[current.id]?.dirty && (
+                        <span className="queue-dirty" title="Unsubmitted edits">
+                            {" "}
+                            • edited
+                        </span>
+                    )}
+                </span>
+                <div className="queue-progress" title={`${submittedCount} of ${documents.length} submitted`}>
+                    <div style={{ width: `${(100 * submittedCount) / documents.length}%` }} />
+                </div>
+                <span>{submittedCount} submitted</span>
+            </div>
+            {issues.length > 0 && (
+                <details className="validation-panel">
+                    <summary>⚠ {issues.length} problem{issues.length === 1 ? "" : "s"} in documents</summary>
+                    <ul>
+                        {issues.map((issue, i) => (
+                            <li key={i}>
+                                {issue.index !== undefined && `#${issue.index}: `}
+                                {issue.message} ({issue.action})
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+            {documents
+                .filter(doc => doc.id === current.id || opened.includes(doc.id))
+                .map(doc => (
+                    <div key={doc.id} style={{ display: doc.id === current.id ? undefined : "none" }}>
+                        <NerSpanAnnotator
+                            text={doc.text}
+                            spans={doc.spans}
+                            labels={labels}
+                            options={options}
+                            tokens={doc.tokens}
+                            relationLabels={relationLabels}
+                            relations={doc.relations}
+                            annotations={doc.annotations}
+                            onChange={value => handleChange(doc.id, value)}
+                            active={doc.id === current.id}
+                            draftKey={`${draftKey ?? ""}/${doc.id}`}
+                        />
+                    </div>
+                ))}
+        </div>
+    )
+}
+
+export default DocumentQueue
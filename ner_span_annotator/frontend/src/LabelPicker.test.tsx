@@ -0,0 +1,29 @@
+import React from "react"
+import { fireEvent, render, screen } from "@testing-library/react"
+import LabelPicker from "./LabelPicker"
+import { LabelDef } from "./types"
+
+const LABELS: LabelDef[] = [{ name: "PER", description: "a person" }, { name: "LOC", description: "a city or country" }]
+
+function setup() {
+    const onChange = jest.fn()
+    const onSubmit = jest.fn()
+    render(<LabelPicker value="PER" labels={LABELS} colors={{}} onChange={onChange} onSubmit={onSubmit} />)
+    return { onChange, onSubmit, search: screen.getByPlaceholderText("PER — search") }
+}
+
+test("Enter takes the first label listed, matched by its description", () => {
+    const { onChange, onSubmit, search } = setup()
+    fireEvent.change(search, { target: { value: "city" } })
+    expect(screen.getAllByRole("button").map(b => b.textContent)).toEqual(["LOC"])
+    fireEvent.keyDown(search, { key: "Enter" })
+    expect(onChange).toHaveBeenCalledWith("LOC")
+    expect(onSubmit).not.toHaveBeenCalled()
+})
+
+test("Enter on an empty search submits the current label", () => {
+    const { onChange, onSubmit, search } = setup()
+    fireEvent.keyDown(search, { key: "Enter" })
+    expect(onSubmit).toHaveBeenCalled()
+    expect(onChange).not.toHaveBeenCalled()
+})
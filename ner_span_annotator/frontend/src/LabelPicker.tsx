@@ -0,0 +1,71 @@
+import React, { useMemo, useState } from "react"
+import { LabelDef } from "./types"
+import { hashColor, searchTaxonomy, taxonomyOrder } from "./taxonomy"
+
+interface LabelPickerProps {
+    value: string
+    labels: LabelDef[]
+    colors: Record<string, string>
+    onChange: (label: string) => void
+    onSubmit: () => void    // Enter on an empty search
+}
+
+/**
+ * Searchable label list, grouped by parent, that replaces a plain <select>
+ * for large taxonomies. Enter picks the first match; descriptions show as tooltips.
+ */
+function LabelPicker({ value, labels, colors, onChange, onSubmit }: LabelPickerProps) {
+    const [query, setQuery] = useState("")
+    const nodes = useMemo(() => {
+        // A label outside the taxonomy stays pickable, like the current value of a kept span
+        const defs = labels.some(l => l.name === value) ? labels : [{ name: value }, ...labels]
+        return taxonomyOrder(defs)
+    }, [labels, value])
+    const matches = useMemo(() => searchTaxonomy(nodes, query), [nodes, query])
+
+    const pick = (label: string) => {
+        onChange(label)
+        setQuery("")
+    }
+
+    return (
+        <span className="label-picker" onPointerUp={e => e.stopPropagation()}>
+            <input
+                autoFocus
+                placeholder={`${value} — search`}
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                onKeyDown={e => {
+                    if (e.key === "Enter") {
+                        const first = matches[0]
+                        if (query.trim() && first) pick(first.def.name)
+                        else onSubmit()
+                    } else if (e.key === "Escape") {
+                        setQuery("")
+                    }
+                }}
+            />
+            <span className="label-picker-list">
+                {matches.map(({ def, depth }) => (
+                    <button
+                        key={def.name}
+                        className={`label-option ${def.name === value ? "selected" : ""}`}
+                        style={{ paddingLeft: 6 + depth * 12 }}
+                        title={def.description}
+                        onClick={() => pick(def.name)}
+                    >
+                        <span
+                            className="label-swatch"
+                            style={{ background: colors[def.name.toUpperCase()] || hashColor(def.name) }}
+                        />
+                        {def.name}
+                        {def.hotkey && <kbd>{def.hotkey}</kbd>}
+                    </button>
+                ))}
+                {!matches.length && <span className="label-option">No matching label</span>}
+            </span>
+        </span>
+    )
+}
+
+export default LabelPicker
@@ -0,0 +1,318 @@
+import React from "react"
+import { fireEvent, render, screen } from "@testing-library/react"
+import NerSpanAnnotator, { NerSpanAnnotatorProps } from "./NerSpanAnnotator"
+import { AnnotationValue } from "./events"
+
+const TEXT = "Ada Lovelace met Charles Babbage."
+
+function setup(props: Partial<NerSpanAnnotatorProps> = {}) {
+    const onChange = jest.fn()
+    const utils = render(
+        <NerSpanAnnotator
+            text={TEXT}
+            spans={[{ start_token: 0, end_token: 12, label: "PER" }]}
+            labels={["PER", "ORG"]}
+            onChange={onChange}
+            {...props}
+        />
+    )
+    // The value last sent to the host
+    const value = (): AnnotationValue => onChange.mock.calls[onChange.mock.calls.length - 1][0]
+    const spans = () => value().spans.map(s => [s.start_token, s.end_token, s.label])
+    return { ...utils, onChange, value, spans }
+}
+
+/** Select characters [start, end) of the segment starting at `segStart`, then release the mouse there. */
+function dragSelect(container: HTMLElement, segStart: number, start: number, end: number) {
+    const segment = container.querySelector(`[data-seg-start="${segStart}"]`) as HTMLElement
+    const range = document.createRange()
+    range.setStart(segment.firstChild as Node, start)
+    range.setEnd(segment.firstChild as Node, end)
+    const selection = window.getSelection() as Selection
+    selection.removeAllRanges()
+    selection.addRange(range)
+    fireEvent.pointerUp(segment, { button: 0, pointerType: "mouse" })
+}
+
+test("reports the initial spans", () => {
+    const { value, spans } = setup()
+    expect(spans()).toEqual([[0, 12, "PER"]])
+    expect(value().dirty).toBe(false)
+    expect(screen.getByRole("group", { name: "PER span" })).toHaveTextContent("PER")
+})
+
+test("creates a span from a selection, then labels and approves it", () => {
+    const { container, value, spans } = setup()
+    // " met Charles Babbage." starts at 12
+    dragSelect(container, 12, 5, 20)
+    fireEvent.click(screen.getByRole("button", { name: "ORG" }))
+    fireEvent.click(screen.getByRole("button", { name: "Approve edit" }))
+
+    expect(spans()).toEqual([
+        [0, 12, "PER"],
+        [17, 32, "ORG"],
+    ])
+    expect(value().dirty).toBe(true)
+    // The new span is reported right away, with the first label
+    expect(value().events.map(e => e.type)).toEqual(["add", "relabel"])
+    expect(screen.getByRole("group", { name: "ORG span" })).toBeInTheDocument()
+})
+
+test("trims selections per the constraints", () => {
+    const { container, spans } = setup({ options: { constraints: { trim: "punctuation" } } })
+    dragSelect(container, 12, 12, 21)
+    fireEvent.click(screen.getByRole("button", { name: "Approve edit" }))
+    expect(spans()).toContainEqual([25, 32, "PER"])
+})
+
+test("ignores a click without a selection", () => {
+    const { container, onChange } = setup()
+    window.getSelection()?.removeAllRanges()
+    const calls = onChange.mock.calls.length
+    fireEvent.pointerUp(container.querySelector('[data-seg-start="12"]') as Element, { button: 0 })
+    expect(onChange).toHaveBeenCalledTimes(calls)
+})
+
+test("relabels a span through its editor", () => {
+    const { value, spans } = setup()
+    fireEvent.click(screen.getByRole("button", { name: "Edit span" }))
+    fireEvent.click(screen.getByRole("button", { name: "ORG" }))
+    fireEvent.click(screen.getByRole("button", { name: "Approve edit" }))
+
+    expect(spans()).toEqual([[0, 12, "ORG"]])
+    expect(value().events.map(e => e.type)).toEqual(["relabel"])
+})
+
+test("moves span edges by a word", () => {
+    const { spans } = setup()
+    fireEvent.click(screen.getByRole("button", { name: "Edit span" }))
+    fireEvent.click(screen.getByRole("button", { name: "Move end later" }))
+    expect(spans()).toEqual([[0, 16, "PER"]])
+    fireEvent.click(screen.getByRole("button", { name: "Move start later" }))
+    expect(spans()).toEqual([[4, 16, "PER"]])
+    fireEvent.click(screen.getByRole("button", { name: "Move start later" }))
+    expect(spans()).toEqual([[13, 16, "PER"]])
+    // A single word can't shrink any further
+    fireEvent.click(screen.getByRole("button", { name: "Move start later" }))
+    fireEvent.click(screen.getByRole("button", { name: "Move end earlier" }))
+    expect(spans()).toEqual([[13, 16, "PER"]])
+})
+
+test("removes a span, and undo brings it back", () => {
+    const { value, spans } = setup()
+    fireEvent.click(screen.getByRole("button", { name: "Remove span" }))
+    expect(spans()).toEqual([])
+    expect(value().events.map(e => e.type)).toEqual(["remove"])
+
+    fireEvent.click(screen.getByTitle("Undo (Ctrl+Z)"))
+    expect(spans()).toEqual([[0, 12, "PER"]])
+})
+
+test("accepts and rejects suggestions under review", () => {
+    const { value } = setup({
+        spans: [
+            { start_token: 0, end_token: 12, label: "PER" },
+            { start_token: 17, end_token: 32, label: "PER" },
+        ],
+        options: { review: true },
+    })
+    expect(value().spans.map(s => s.status)).toEqual(["pending", "pending"])
+
+    fireEvent.click(screen.getAllByRole("button", { name: "Accept span" })[0])
+    fireEvent.click(screen.getAllByRole("button", { name: "Reject span" })[1])
+    expect(value().spans.map(s => s.status)).toEqual(["accepted", "rejected"])
+
+    fireEvent.click(screen.getByRole("button", { name: "Restore span" }))
+    expect(value().spans.map(s => s.status)).toEqual(["accepted", "accepted"])
+})
+
+test("submits, and editing afterwards clears the flag", () => {
+    const { value } = setup()
+    fireEvent.click(screen.getByRole("button", { name: "Submit" }))
+    expect(value().submitted).toBe(true)
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove span" }))
+    expect(value().submitted).toBe(false)
+})
+
+test("has no editing controls in view mode", () => {
+    setup({ options: { mode: "view" } })
+    expect(screen.queryByRole("button", { name: "Edit span" })).not.toBeInTheDocument()
+    expect(screen.getByRole("group", { name: "Annotated text" })).toBeInTheDocument()
+})
+
+test("escapes colors filled into templates", () => {
+    const { container } = setup({
+        options: {
+            mode: "view",
+            colors: { PER: `red"><img src=x onerror="alert(1)"><b x='` },
+            template: {
+                span: "<mark>{text}{span_slices}{span_starts}</mark>",
+                slice: '<i style="background: {bg}"></i>',
+                start: "<b title='{bg}'>{label}</b>",
+            },
+        },
+    })
+    expect(container.querySelector("img")).toBeNull()
+    expect(container.querySelector("mark i")?.getAttribute("style")).toContain(`red"><img`)
+    expect(container.querySelector("mark b")?.getAttribute("title")).toContain(`<b x='`)
+})
+
+test("ignores a token list without any non-empty token", () => {
+    const { value, spans } = setup({ tokens: [{ text: "", start: 0, end: 0 }] })
+    expect(value().issues.map(i => [i.source, i.index, i.message])).toEqual([["tokens", 0, "empty token"]])
+    fireEvent.click(screen.getByRole("button", { name: "Edit span" }))
+    fireEvent.click(screen.getByRole("button", { name: "Move end later" }))
+    expect(spans()).toEqual([[0, 16, "PER"]])
+})
+
+test("draws relation arcs on the chosen side, with markers unique per annotator", () => {
+    const relationProps = {
+        spans: [
+            { start_token: 0, end_token: 12, label: "PER" },
+            { start_token: 17, end_token: 32, label: "PER" },
+        ],
+        relationLabels: ["MET"],
+        relations: [{ head: 0, child: 1, label: "MET" }],
+    }
+    const { container } = setup({ ...relationProps, options: { arc_placement: "below" } })
+    setup(relationProps)
+
+    const bodies = Array.from(document.querySelectorAll<HTMLElement>(".annotator-body > div"))
+    expect(bodies.map(b => [b.style.paddingTop, b.style.paddingBottom])).toEqual([
+        ["0px", "60px"],
+        ["60px", "0px"],
+    ])
+    const markers = Array.from(document.querySelectorAll("marker")).map(m => m.id)
+    expect(new Set(markers).size).toBe(2)
+    expect(container.querySelector("path[marker-end]")?.getAttribute("marker-end")).toBe(`url(#${markers[0]})`)
+})
+
+test("puts added and edited spans in the gold set, with accepted ones", () => {
+    const { container, value } = setup({
+        spans: undefined,
+        annotations: {
+            alice: [{ start_token: 0, end_token: 12, label: "PER" }],
+            bob: [
+                { start_token: 0, end_token: 12, label: "PER" },
+                { start_token: 17, end_token: 24, label: "PER" },
+            ],
+        },
+    })
+    // Spans everyone agrees on start out accepted
+    expect(value().gold).toEqual([{ start_token: 0, end_token: 12, label: "PER", annotators: ["alice", "bob"] }])
+
+    // Relabel Bob's "Charles", then add "Babbage."
+    fireEvent.click(screen.getAllByRole("button", { name: "Edit span" })[1])
+    fireEvent.click(screen.getByRole("button", { name: "ORG" }))
+    fireEvent.click(screen.getByRole("button", { name: "Approve edit" }))
+    dragSelect(container, 24, 1, 8)
+    fireEvent.click(screen.getByRole("button", { name: "Approve edit" }))
+    fireEvent.click(screen.getAllByRole("button", { name: "Reject span" })[0])
+
+    expect(value().spans.map(s => s.status)).toEqual(["rejected", "modified", "added"])
+    expect(value().gold?.map(s => [s.start_token, s.end_token, s.label])).toEqual([
+        [17, 24, "ORG"],
+        [25, 32, "PER"],
+    ])
+})
+
+test("takes and reports code point offsets around emoji in right-to-left text", () => {
+    // "שלום 👋 עולם": the emoji takes two UTF-16 code units but one code point
+    const text = "שלום \u{1F44B} עולם"
+    const { container, value, spans } = setup({
+        text,
+        spans: [
+            { start_token: 7, end_token: 11, label: "PER" },
+            { start_token: 7, end_token: 12, label: "ORG" },
+        ],
+    })
+    expect(spans()).toEqual([[7, 11, "PER"]])
+    expect(value().issues.map(i => [i.index, i.message])).toEqual([[1, "offsets 7–12 outside the text (0–11)"]])
+    // Drawn from UTF-16 offset 8
+    expect(container.querySelector('[data-seg-start="8"]')).toHaveTextContent("עולם")
+})
+
+describe("selecting words", () => {
+    const text = "שלום עולם 北京大学"
+
+    test("labels the word under a click in click-to-select mode", () => {
+        const { container, spans } = setup({ text, spans: [], options: { click_to_select: true } })
+        const segment = container.querySelector('[data-seg-start="0"]') as HTMLElement
+        // jsdom has no layout: put the caret in the middle of each word in turn
+        const doc = document as Document & { caretPositionFromPoint?: unknown }
+        try {
+            ;[7, 12].forEach(offset => {
+                doc.caretPositionFromPoint = () => ({ offsetNode: segment.firstChild, offset })
+                window.getSelection()?.removeAllRanges()
+                fireEvent.pointerUp(segment, { button: 0, pointerType: "mouse" })
+                fireEvent.click(screen.getByRole("button", { name: "Approve edit" }))
+            })
+        } finally {
+            delete doc.caretPositionFromPoint
+        }
+        expect(spans()).toEqual([
+            [5, 9, "PER"],
+            [10, 14, "PER"],
+        ])
+    })
+
+    test("widens a double-clicked word to its token", () => {
+        const tokens = [
+            { text: "New", start: 0, end: 3 },
+            { text: "York's", start: 4, end: 10 },
+        ]
+        const { container, spans } = setup({ text: "New York's", spans: [], tokens })
+        // Browsers select "York" alone on a double click
+        dragSelect(container, 0, 4, 8)
+        fireEvent.click(screen.getByRole("button", { name: "Approve edit" }))
+        expect(spans()).toEqual([[4, 10, "PER"]])
+    })
+
+    test("ignores a release on the label picker", () => {
+        const { container, spans } = setup({ text, spans: [] })
+        dragSelect(container, 0, 0, 4)
+        const picker = container.querySelector(".label-picker") as HTMLElement
+        const selection = window.getSelection() as Selection
+        const range = document.createRange()
+        range.selectNodeContents(container.querySelector('[data-seg-start="4"]') as Node)
+        selection.removeAllRanges()
+        selection.addRange(range)
+        fireEvent.pointerUp(picker, { button: 0, pointerType: "mouse" })
+        fireEvent.click(screen.getByRole("button", { name: "Approve edit" }))
+        expect(spans()).toEqual([[0, 4, "PER"]])
+    })
+})
+
+describe("keyboard navigation with labels hidden in the span list", () => {
+    const props: Partial<NerSpanAnnotatorProps> = {
+        spans: [
+            { start_token: 0, end_token: 12, label: "PER" },
+            { start_token: 17, end_token: 32, label: "ORG" },
+        ],
+        options: { span_list: "side" },
+    }
+    const hide = (label: string) => fireEvent.click(screen.getByRole("checkbox", { name: new RegExp(`^${label}`) }))
+
+    test("steps over spans whose label is hidden", () => {
+        const { spans } = setup(props)
+        hide("PER")
+        const root = screen.getByRole("group", { name: "Span annotator" })
+        fireEvent.keyDown(root, { key: "ArrowRight" })
+        expect(root.getAttribute("aria-activedescendant")).toMatch(/^nsa-span-/)
+        fireEvent.keyDown(root, { key: "ArrowRight" })
+        fireEvent.keyDown(root, { key: "Delete" })
+        expect(spans()).toEqual([[0, 12, "PER"]])
+    })
+
+    test("drops the focus when the focused span's label is hidden", () => {
+        const { onChange } = setup(props)
+        const root = screen.getByRole("group", { name: "Span annotator" })
+        fireEvent.keyDown(root, { key: "ArrowRight" })
+        hide("PER")
+        expect(root.getAttribute("aria-activedescendant")).toBeNull()
+        const calls = onChange.mock.calls.length
+        fireEvent.keyDown(root, { key: "Delete" })
+        expect(onChange).toHaveBeenCalledTimes(calls)
+    })
+})
@@ -2,192 +2,775 @@ import React, {
     useCallback,
     useEffect,
     useMemo,
+    useRef,
     useState,
 } from "react"
-import { Streamlit, withStreamlitConnection, ComponentProps } from "streamlit-component-lib"
-import { RiEditFill } from "react-icons/ri"
+import { Token, moveByToken, nearestTokenEdge, snapToTokens } from "./tokens"
+import { offsetAtPoint } from "./caret"
+import { moveByWord } from "./words"
+import { adjustSelection, resolveRange, wordAt } from "./selection"
+import { remapSpans, spanKey } from "./sync"
+import { Draft, clearDraft, draftKey, loadDraft, saveDraft } from "./drafts"
+import { useHistory } from "./history"
+import { AnnotationValue, EditEvent, describeEvents, diffRelations, diffSpans } from "./events"
+import {
+    validateAnnotations,
+    validateGazetteer,
+    validateLabels,
+    validateOptions,
+    validateRelations,
+    validateSpans,
+    validateTokens,
+    ValidationIssue,
+} from "./validation"
+import { EditableSpan, LabelDef, RendererOptions, Span, SpanStatus } from "./types"
+import { Relation, RelationSnapshot } from "./relations"
+import RelationArcs, { ArcSpec } from "./RelationArcs"
+import SpanSegment, { SegmentStyle, SpanActions } from "./SpanSegment"
+import SpanList from "./SpanList"
+import { assembleSegments, compareSpans } from "./layout"
+import { agreementMetrics, isAlternative, mergeAnnotations } from "./agreement"
+import { labelColors, taxonomyOrder } from "./taxonomy"
+import { checkConstraints } from "./constraints"
+import { DEFAULT_THEME, ThemeVars, themeStyle, themeVar } from "./theme"
+import { readableTextColor } from "./contrast"
+import {
+    ceilGrapheme,
+    convertOffsets,
+    detectDirection,
+    floorGrapheme,
+    graphemeBoundaries,
+    offsetMap,
+} from "./unicode"
+import { SearchQuery, findMatches, suggestSpans } from "./search"
 
-/** Each span references character offsets in the text. */
-export interface Span {
-    start_token: number    // inclusive
-    end_token: number      // exclusive
-    label: string
-    render_slot?: number
-}
-
-/** RendererOptions can still be passed in `args["options"]` if desired. */
-export interface RendererOptions {
-    colors?: Record<string, string>
-    top_offset?: number
-    span_label_offset?: number
-    top_offset_step?: number
-    template?: {
-        span: string
-        slice: string
-        start: string
-    }
-}
+const SPAN_STATUSES: SpanStatus[] = ["pending", "accepted", "rejected", "modified", "added"]
 
-/** Our local version tracks editing state. */
-interface EditableSpan extends Span {
+/** A span edge being dragged, with the extent it would have if released now. */
+interface DragState {
     span_id: number
-    editing?: boolean
-    tempLabel?: string
+    edge: "start" | "end"
+    start: number
+    end: number
 }
 
-/** The entity info assigned to each “character.” */
-interface CharEntity {
+/** A relation between two local spans, referenced by `span_id`. */
+interface EditableRelation {
+    rel_id: number
+    head: number
+    child: number
     label: string
-    span_id: number
-    is_start: boolean
-    render_slot: number
 }
 
-/** We store each character’s text, idx, and the list of entities overlapping it. */
-interface CharMarkup {
-    ch: string
-    idx: number
-    entities: CharEntity[]
+/** Everything the undo history covers. */
+interface AnnotationDoc {
+    spans: EditableSpan[]
+    relations: EditableRelation[]
 }
 
-/**
- * Sort spans (longer first if they start at the same char),
- * assign `render_slot` so overlapping spans can stack,
- * and produce per-character info for rendering.
- */
-function assemblePerCharInfo(chars: string[], spans: EditableSpan[]): CharMarkup[] {
-    // Sort so that for the same start, longer spans get assigned higher slot
-    spans.sort((a, b) => {
-        const lenA = a.end_token - a.start_token
-        const lenB = b.end_token - b.start_token
-        const startDiff = a.start_token - b.start_token
-        if (startDiff !== 0) return startDiff
-        if (lenB !== lenA) return lenB - lenA
-        // Tiebreak: alphabetical label
-        return a.label.localeCompare(b.label)
-    })
-
-    // Reset each span's render_slot
-    spans.forEach(s => (s.render_slot = 0))
-
-    const out: CharMarkup[] = []
-    for (let i = 0; i < chars.length; i++) {
-        const ch = chars[i]
-        const intersectingSpans: EditableSpan[] = []
-        const entities: CharEntity[] = []
-
-        for (const span of spans) {
-            if (span.start_token <= i && i < span.end_token) {
-                const isStart = i === span.start_token
-                if (isStart) {
-                    // If this is the first span in this char, render_slot = 1
-                    // else +1 from the last intersecting
-                    span.render_slot =
-                        (intersectingSpans[intersectingSpans.length - 1]?.render_slot ?? 0) + 1
-                }
-                intersectingSpans.push(span)
-                entities.push({
-                    label: span.label,
-                    span_id: span.span_id,
-                    is_start: isStart,
-                    render_slot: span.render_slot ?? 0,
-                })
-            }
-        }
-
-        out.push({
-            ch,
-            idx: i,
-            entities,
-        })
-    }
-    return out
+/** Status after an annotator changes a span; spans they added stay "added". */
+function statusAfterEdit(s: EditableSpan): SpanStatus | undefined {
+    if (s.status === undefined || s.status === "added") return s.status
+    return "modified"
 }
 
 let globalSpanCounter = 1
+let globalRelationCounter = 1
+
+// Drafts are saved this long after the last edit
+const AUTOSAVE_DELAY = 1000
+
+/**
+ * The annotator as a plain React component. `spans` and `relations` seed the
+ * local state, which is edited in place and reported through `onChange`; new
+ * `text` or `spans` are taken in per `options.sync`.
+ */
+export interface NerSpanAnnotatorProps {
+    text: string
+    spans?: Span[]
+    labels: string[]
+    options?: RendererOptions
+    tokens?: Token[]                // switches to token-aware mode
+    relationLabels?: string[]       // enables relation annotation
+    relations?: Relation[]
+    annotations?: Record<string, Span[]>    // comparison mode: span sets by annotator, replaces `spans`
+    onChange?: (value: AnnotationValue) => void
+    active?: boolean                // false while hidden, e.g. behind another document
+    theme?: Partial<ThemeVars>      // the host's theme; `options.theme` takes precedence
+    draftKey?: string               // tells drafts of the same text in different places apart
+}
 
-function NerSpanAnnotator({ args }: ComponentProps) {
+function NerSpanAnnotator({
+    text: rawText,
+    spans: rawSpans,
+    labels: rawLabels,
+    options: rawOptions,
+    tokens: rawTokens,
+    relationLabels: rawRelationLabels,
+    relations: rawRelations,
+    annotations: rawAnnotations,
+    onChange,
+    active = true,
+    theme,
+    draftKey: draftName,
+}: NerSpanAnnotatorProps) {
     // 1) Accept `text` (string) instead of `tokens`.
-    const text: string = args["text"] ?? ""
-    const rawSpans: Span[] = args["spans"] ?? []
-    const allowedLabels: string[] = args["labels"] ?? []
+    const text: string = typeof rawText === "string" ? rawText : ""
+    // Offsets come and go as code points (Python's `str` indices) and are kept as UTF-16 offsets
+    const offsets = useMemo(() => offsetMap(text), [text])
+    const toUnits = useCallback(
+        <T,>(items: T, keys: [string, string] = ["start_token", "end_token"]): T =>
+            offsets.trivial ? items : convertOffsets(items, offsets.toUnits, keys),
+        [offsets]
+    )
+    // Span edges never split a user-perceived character (an emoji sequence, a letter with its marks)
+    const graphemes = useMemo(() => graphemeBoundaries(text), [text])
+    const { labels: allowedLabels, defs: labelDefs, issues: labelIssues } = useMemo(
+        () => validateLabels(rawLabels),
+        [rawLabels]
+    )
+    const { labels: relationLabels, issues: relationLabelIssues } = useMemo(
+        () => validateLabels(rawRelationLabels, "relation_labels"),
+        [rawRelationLabels]
+    )
 
     // 2) Use the same top_offset logic for layering lines.
-    const options: RendererOptions = args["options"] ?? {}
+    const { options, issues: optionIssues } = useMemo(() => validateOptions(rawOptions), [rawOptions])
     const {
         top_offset = 40,
         span_label_offset = 20,
         top_offset_step = 17,
-        colors = {},
+        history_limit = 100,
+        hotkeys,
+        show_hotkey_legend = true,
+        show_label_legend = true,
+        score_threshold = 0.5,
+        review: reviewOption = false,
+        submit_only = false,
+        validation = "drop",
+        colors,
+        gazetteer,
+        mode = "edit",
+        template,
+        direction = "auto",
+        click_to_select = false,
+        sync = "reset",
+        span_list,
+        autosave = true,
+        arc_placement = "above",
     } = options
+    const editable = mode !== "view"
+    const rtl = (direction === "auto" ? detectDirection(text) : direction) === "rtl"
 
-    // Merge user-provided colors with defaults:
-    const defaultColors: Record<string, string> = {
-        ORG: "#7aecec",
-        PRODUCT: "#bfeeb7",
-        GPE: "#feca74",
-        LOC: "#ff9561",
-        PERSON: "#aa9cfc",
-        NORP: "#c887fb",
-        FAC: "#9cc9cc",
-        EVENT: "#ffeb80",
-        LAW: "#ff8197",
-        LANGUAGE: "#ff8197",
-        WORK_OF_ART: "#f0d0ff",
-        DATE: "#bfe1d9",
-        TIME: "#bfe1d9",
-        MONEY: "#e4e7d2",
-        QUANTITY: "#e4e7d2",
-        ORDINAL: "#e4e7d2",
-        CARDINAL: "#e4e7d2",
-        PERCENT: "#e4e7d2",
-    }
-    const mergedColors = { ...defaultColors, ...colors }
-    const defaultColor = "#ddd"
-
-    // 3) Convert text → array of single characters
-    const charArray = useMemo(() => text.split(""), [text])
-
-    // 4) Convert incoming spans → local EditableSpan
+    // Option colors over label colors over displaCy's; the rest are generated
+    const mergedColors = useMemo(() => labelColors(labelDefs, colors), [labelDefs, colors])
+    // Bubble text switches to black or white where the theme's label text is hard to read
+    const labelText = options.theme?.label_text ?? theme?.label_text ?? DEFAULT_THEME.label_text
+    const textColors = useMemo(() => {
+        const out: Record<string, string> = {}
+        Object.entries(mergedColors).forEach(([label, bg]) => {
+            const readable = readableTextColor(bg, labelText)
+            if (readable) out[label] = readable
+        })
+        return out
+    }, [mergedColors, labelText])
+    const segmentStyle: SegmentStyle = useMemo(
+        () => ({
+            top_offset,
+            span_label_offset,
+            top_offset_step,
+            score_threshold,
+            colors: mergedColors,
+            text_colors: textColors,
+            editable,
+            template,
+            rtl,
+        }),
+        [
+            top_offset,
+            span_label_offset,
+            top_offset_step,
+            score_threshold,
+            mergedColors,
+            textColors,
+            editable,
+            template,
+            rtl,
+        ]
+    )
+
+    // In token mode every span boundary snaps to the supplied tokenization.
+    // A list without any valid token doesn't switch it on.
+    const { tokens, issues: tokenIssues } = useMemo(
+        () => validateTokens(toUnits(rawTokens, ["start", "end"]), text),
+        [rawTokens, text, toUnits]
+    )
+
+    // In comparison mode the annotators' spans are merged into candidates to adjudicate
+    const comparison = useMemo(
+        () =>
+            rawAnnotations === undefined || rawAnnotations === null
+                ? null
+                : validateAnnotations(
+                    typeof rawAnnotations === "object" && !Array.isArray(rawAnnotations)
+                        ? Object.fromEntries(Object.entries(rawAnnotations).map(([name, set]) => [name, toUnits(set)]))
+                        : rawAnnotations,
+                    text,
+                    allowedLabels,
+                    tokens,
+                    validation
+                ),
+        [rawAnnotations, text, allowedLabels, tokens, validation, toUnits]
+    )
+    // Gazetteer matches load as pending suggestions, so a gazetteer implies review mode
+    const { entries: gazetteerEntries, issues: gazetteerIssues } = useMemo(
+        () => validateGazetteer(gazetteer, allowedLabels, validation),
+        [gazetteer, allowedLabels, validation]
+    )
+    const review = reviewOption || !!comparison || gazetteerEntries.length > 0
+
+    // 4) Validate incoming spans (reporting what was dropped or fixed) → local EditableSpan
+    const { spans: validSpans, indices: validIndices, issues: spanIssues } = useMemo(
+        () =>
+            comparison
+                ? { spans: mergeAnnotations(comparison.sets), indices: [], issues: comparison.issues }
+                : validateSpans(toUnits(rawSpans), text, allowedLabels, tokens, validation),
+        [comparison, rawSpans, text, allowedLabels, tokens, validation, toUnits]
+    )
+    const { relations: validRelations, issues: relationIssues } = useMemo(
+        () => validateRelations(rawRelations, validIndices, relationLabels, validation),
+        [rawRelations, validIndices, relationLabels, validation]
+    )
+    // Measured on the input, so fixed at load (and at each sync) as well
+    const [agreement, setAgreement] = useState(() => (comparison ? agreementMetrics(comparison.sets) : undefined))
+    // Violations are part of the value, so the rules they come from are fixed at load too
+    const [constraints] = useState(options.constraints)
+    // Fixed at load, like the spans, so re-renders with fresh props don't change the reported value
+    const inputIssues = (): ValidationIssue[] => [
+        ...labelIssues,
+        ...relationLabelIssues,
+        ...optionIssues,
+        ...gazetteerIssues,
+        ...tokenIssues,
+        ...spanIssues,
+        ...relationIssues,
+        // The label bubbles carry the editing controls, so only slices can be templated while editing
+        ...(editable ? (["span", "start"] as const) : [])
+            .filter(part => template?.[part])
+            .map(
+                (part): ValidationIssue => ({
+                    source: "options",
+                    item: `template.${part}`,
+                    message: `"template.${part}" only applies with mode "view"`,
+                    action: "ignored",
+                })
+            ),
+    ]
+    const [issues, setIssues] = useState(inputIssues)
+
+    // In review mode, a status from a previous session is kept
+    const inputStatus = useCallback(
+        (s: Span): SpanStatus | undefined =>
+            review ? (SPAN_STATUSES.includes(s.status as SpanStatus) ? s.status : "pending") : undefined,
+        [review]
+    )
     const toEditableSpans = useCallback(
         (arr: Span[]): EditableSpan[] =>
-            arr
-                // Filter out if label is not in allowedLabels
-                .filter(s => allowedLabels.includes(s.label))
-                .map(s => ({
-                    ...s,
-                    span_id: globalSpanCounter++,
-                    editing: false,
-                    tempLabel: s.label,
-                })),
-        [allowedLabels]
+            arr.map(s => ({
+                ...s,
+                span_id: globalSpanCounter++,
+                editing: false,
+                tempLabel: s.label,
+                status: inputStatus(s),
+            })),
+        [inputStatus]
+    )
+
+    // Suggestions come after the input spans, so `validIndices` still line up
+    const incomingSpans = () => [...validSpans, ...suggestSpans(text, gazetteerEntries, tokens, validSpans)]
+
+    /** Load spans and relations; relation ends refer to input positions of the spans. */
+    const toAnnotationDoc = (): AnnotationDoc => {
+        const spans = toEditableSpans(incomingSpans())
+        const idByIndex = new Map(validIndices.map((index, i) => [index, spans[i].span_id] as [number, number]))
+        const relations = validRelations.map(r => ({
+            rel_id: globalRelationCounter++,
+            head: idByIndex.get(r.head) as number,
+            child: idByIndex.get(r.child) as number,
+            label: r.label,
+        }))
+        return { spans, relations }
+    }
+
+    // Local state, with undo/redo over every recorded span and relation edit
+    const {
+        present: doc,
+        set: setDoc,
+        undo,
+        redo,
+        clear: clearHistory,
+        state: historyState,
+        restore: restoreHistory,
+        canUndo,
+        canRedo,
+    } = useHistory<AnnotationDoc>(toAnnotationDoc, history_limit)
+    const componentSpans = doc.spans
+    const relations = doc.relations
+
+    /** Update the spans only; returning `prev` leaves the document (and history) untouched. */
+    const setComponentSpans = useCallback(
+        (update: (prev: EditableSpan[]) => EditableSpan[], record: boolean = true) =>
+            setDoc(d => {
+                const spans = update(d.spans)
+                return spans === d.spans ? d : { ...d, spans }
+            }, record),
+        [setDoc]
+    )
+
+    const setRelations = useCallback(
+        (update: (prev: EditableRelation[]) => EditableRelation[]) =>
+            setDoc(d => {
+                const next = update(d.relations)
+                return next === d.relations ? d : { ...d, relations: next }
+            }),
+        [setDoc]
+    )
+
+    // A different document makes the old history meaningless
+    useEffect(() => {
+        clearHistory()
+    }, [text, clearHistory])
+
+    // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y), leaving text fields their native undo
+    useEffect(() => {
+        if (!active) return
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return
+            const target = e.target as HTMLElement | null
+            if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA")) return
+            const key = e.key.toLowerCase()
+            if (key === "z" && !e.shiftKey) {
+                e.preventDefault()
+                undo()
+            } else if ((key === "z" && e.shiftKey) || key === "y") {
+                e.preventDefault()
+                redo()
+            }
+        }
+        window.addEventListener("keydown", onKeyDown)
+        return () => window.removeEventListener("keydown", onKeyDown)
+    }, [undo, redo, active])
+
+    // The span driven by the keyboard; null when nothing is focused
+    const [focusedSpanId, setFocusedSpanId] = useState<number | null>(null)
+
+    // Relation mode: click a head span's label, then the child's
+    const [relationMode, setRelationMode] = useState(false)
+    const [relationHead, setRelationHead] = useState<number | null>(null)
+    const [selectedRelationId, setSelectedRelationId] = useState<number | null>(null)
+
+    // key → label: `options.hotkeys` over the labels' own hotkeys, or 1–9 following `labels`
+    const labelByHotkey = useMemo(() => {
+        const out: Record<string, string> = {}
+        const own = Object.fromEntries(labelDefs.filter(d => d.hotkey).map(d => [d.name, d.hotkey as string]))
+        const configured = { ...own, ...hotkeys }
+        if (Object.keys(configured).length) {
+            Object.entries(configured).forEach(([label, key]) => (out[key.toLowerCase()] = label))
+        } else {
+            allowedLabels.slice(0, 9).forEach((label, i) => (out[String(i + 1)] = label))
+        }
+        return out
+    }, [hotkeys, labelDefs, allowedLabels])
+    const hotkeyByLabel = useMemo(
+        () => Object.fromEntries(Object.entries(labelByHotkey).map(([key, label]) => [label, key])),
+        [labelByHotkey]
+    )
+    const labelGroups = useMemo(() => {
+        const groups: LabelDef[][] = []
+        taxonomyOrder(labelDefs).forEach(({ def, depth }) =>
+            depth === 0 ? groups.push([def]) : groups[groups.length - 1].push(def)
+        )
+        return groups
+    }, [labelDefs])
+
+    // 5) Cut the text into segments, runs of characters covered by the same spans (see layout.ts).
+    // Search matches are highlighted (segments are cut at their edges) and can all be labeled at once
+    const [search, setSearch] = useState<SearchQuery>({ pattern: "", whole_word: true })
+    const [searchLabel, setSearchLabel] = useState("")
+    const { matches, searchError } = useMemo(() => {
+        try {
+            return { matches: findMatches(text, search, tokens), searchError: null }
+        } catch (e) {
+            return { matches: [] as [number, number][], searchError: (e as Error).message }
+        }
+    }, [text, search, tokens])
+    // While an edge is dragged, the span is drawn with its new extent until release
+    const [drag, setDrag] = useState<DragState | null>(null)
+    // Labels switched off in the span list are only hidden from the text, not removed
+    const [hiddenLabels, setHiddenLabels] = useState<Set<string>>(() => new Set())
+    const displaySpans = useMemo(() => {
+        const shown = hiddenLabels.size ? componentSpans.filter(s => !hiddenLabels.has(s.label)) : componentSpans
+        return drag
+            ? shown.map(s => (s.span_id === drag.span_id ? { ...s, start_token: drag.start, end_token: drag.end } : s))
+            : shown
+    }, [componentSpans, drag, hiddenLabels])
+    const segments = useMemo(
+        () => assembleSegments(text, displaySpans, matches.flat()),
+        [text, displaySpans, matches]
+    )
+    const hitSegments = useMemo(() => {
+        const hits = new Set<number>()
+        let i = 0
+        segments.forEach(segment => {
+            while (i < matches.length && matches[i][1] <= segment.start) i++
+            if (i < matches.length && matches[i][0] <= segment.start) hits.add(segment.start)
+        })
+        return hits
+    }, [segments, matches])
+    const spanById = useMemo(
+        () => new Map(componentSpans.map(s => [s.span_id, s] as [number, EditableSpan])),
+        [componentSpans]
+    )
+
+    // 6) Track edits as events and report the resulting value through `onChange`
+    const toPlainSpan = useCallback(
+        ({
+            span_id,
+            editing,
+            tempLabel,
+            tempComment,
+            tempKbId,
+            render_slot,
+            token_start,
+            token_end,
+            ...rest
+        }: EditableSpan): Span => {
+            const plain = {
+                ...rest,
+                start_token: offsets.toCodePoints(rest.start_token),
+                end_token: offsets.toCodePoints(rest.end_token),
+            }
+            if (!tokens) return plain
+            const range = snapToTokens(tokens, rest.start_token, rest.end_token)
+            return range ? { ...plain, token_start: range.token_start, token_end: range.token_end } : plain
+        },
+        [tokens, offsets]
     )
 
-    // Local state
-    const [componentSpans, setComponentSpans] = useState<EditableSpan[]>(() =>
-        toEditableSpans(rawSpans)
+    /** Relations with both ends as list positions in `spans`, plus snapshots for events. */
+    const toPlainRelations = useCallback(
+        (spans: EditableSpan[], rels: EditableRelation[]) => {
+            const indexById = new Map(spans.map((s, i) => [s.span_id, i] as [number, number]))
+            const plain: Relation[] = []
+            const snapshots = new Map<number, RelationSnapshot>()
+            rels.forEach(r => {
+                const head = indexById.get(r.head)
+                const child = indexById.get(r.child)
+                if (head === undefined || child === undefined) return
+                plain.push({ head, child, label: r.label })
+                snapshots.set(r.rel_id, {
+                    label: r.label,
+                    head_span: toPlainSpan(spans[head]),
+                    child_span: toPlainSpan(spans[child]),
+                })
+            })
+            return { plain, snapshots }
+        },
+        [toPlainSpan]
+    )
+
+    // Spans are reported in document order
+    const orderedSpans = useMemo(() => [...componentSpans].sort(compareSpans), [componentSpans])
+    // Keyboard navigation only steps through spans shown in the text
+    const navigableSpans = useMemo(
+        () => (hiddenLabels.size ? orderedSpans.filter(s => !hiddenLabels.has(s.label)) : orderedSpans),
+        [orderedSpans, hiddenLabels]
+    )
+    const [reportedSpans, setReportedSpans] = useState<Span[]>(() => orderedSpans.map(toPlainSpan))
+    const [reportedRelations, setReportedRelations] = useState<Relation[]>(
+        () => toPlainRelations(orderedSpans, relations).plain
     )
+    const [events, setEvents] = useState<EditEvent[]>([])
+    const [version, setVersion] = useState(0)
+    const [dirty, setDirty] = useState(false)
+    const [submitted, setSubmitted] = useState(false)
+
+    // Edits are read out by screen readers through a live region
+    const [announcement, setAnnouncement] = useState("")
+    const quoteSpan = useCallback(
+        (span: Span) => text.slice(offsets.toUnits(span.start_token), offsets.toUnits(span.end_token)),
+        [text, offsets]
+    )
+
+    // Editor toggles don't change the plain spans, so they produce no events
+    const prevPlainRef = useRef<{
+        spans: Map<number, Span>
+        relations: Map<number, RelationSnapshot>
+    } | null>(null)
+    useEffect(() => {
+        const ordered = [...doc.spans].sort(compareSpans)
+        const spans = new Map(ordered.map(s => [s.span_id, toPlainSpan(s)] as [number, Span]))
+        const rels = toPlainRelations(ordered, doc.relations)
+        const prev = prevPlainRef.current
+        prevPlainRef.current = { spans, relations: rels.snapshots }
+        if (!prev) return
+        // Changes that came with new arguments are reported, but aren't edits
+        if (doc === syncedDocRef.current) {
+            setReportedSpans(Array.from(spans.values()))
+            setReportedRelations(rels.plain)
+            setVersion(v => v + 1)
+            return
+        }
+        const changes = [
+            ...diffSpans(prev.spans, spans),
+            ...diffRelations(prev.relations, rels.snapshots),
+        ]
+        if (!changes.length) return
+        setAnnouncement(describeEvents(changes, quoteSpan))
+        setReportedSpans(Array.from(spans.values()))
+        setReportedRelations(rels.plain)
+        setEvents(evts => [...evts, ...changes])
+        setVersion(v => v + 1)
+        setDirty(true)
+        setSubmitted(false)
+    }, [doc, toPlainSpan, toPlainRelations, quoteSpan])
+
+    // 5) Follow new `text`/`spans` arguments (e.g. fresh predictions) per `options.sync`
+    const [syncNotice, setSyncNotice] = useState<string | null>(null)
+    const syncedDocRef = useRef<AnnotationDoc | null>(null)
+    const inputKey = useMemo(
+        () => JSON.stringify([text, validSpans, validRelations]),
+        [text, validSpans, validRelations]
+    )
+    /** The input spans as loaded, to tell them apart from local edits. */
+    const baseOf = (spans: Span[]) =>
+        new Map(spans.map(s => [spanKey(s), inputStatus(s)] as [string, SpanStatus | undefined]))
+    const lastInputRef = useRef<{ key: string; text: string; base: ReturnType<typeof baseOf> } | null>(null)
+    if (!lastInputRef.current) lastInputRef.current = { key: inputKey, text, base: baseOf(incomingSpans()) }
+
+    const applySync = (next: AnnotationDoc, record: boolean) => {
+        syncedDocRef.current = next
+        setDoc(() => next, record)
+        setIssues(inputIssues())
+        setAgreement(comparison ? agreementMetrics(comparison.sets) : undefined)
+        setFocusedSpanId(null)
+        setRelationHead(null)
+        setSelectedRelationId(null)
+    }
+
+    const syncInput = () => {
+        const last = lastInputRef.current
+        if (!last || last.key === inputKey) return
+        const incoming = incomingSpans()
+        lastInputRef.current = { key: inputKey, text, base: baseOf(incoming) }
+        const textChanged = last.text !== text
+        // Spans as loaded (not edited since) carry no local work
+        const isLoaded = (s: EditableSpan) => last.base.has(spanKey(s)) && last.base.get(spanKey(s)) === s.status
+        const loaded = new Set(doc.spans.filter(isLoaded).map(s => s.span_id))
+        const edited = doc.spans.filter(s => !loaded.has(s.span_id))
+        const remapped = textChanged ? remapSpans(doc.spans, last.text, text, tokens) : { spans: doc.spans, dropped: 0 }
+
+        const reset = (why: string) => {
+            const fresh = toAnnotationDoc()
+            const plain = (d: AnnotationDoc) => JSON.stringify([...d.spans].sort(compareSpans).map(toPlainSpan))
+            if (!textChanged && plain(fresh) === plain(doc)) return
+            // A new document starts a new audit trail
+            applySync(fresh, !textChanged)
+            setEvents([])
+            setDirty(false)
+            setSubmitted(false)
+            if (dirty) setSyncNotice(`${why}${textChanged ? "" : " Undo brings them back."}`)
+        }
+        if (sync === "reset") return reset("New input replaced your unsaved edits.")
+        if (!remapped) return reset("The text changed too much to keep your edits; the new input was loaded.")
+        if (sync === "keep_local" && !textChanged) return
+
+        let spans = remapped.spans
+        const lost = edited.filter(s => !spans.some(m => m.span_id === s.span_id)).length
+        const relations: EditableRelation[] = []
+        if (sync === "merge") {
+            // Loaded spans follow the input; local edits stay, and new input spans join them
+            const incomingByKey = new Map(incoming.map(s => [spanKey(s), s] as [string, Span]))
+            spans = spans
+                .filter(s => !loaded.has(s.span_id) || incomingByKey.has(spanKey(s)))
+                .map(s => {
+                    const update = loaded.has(s.span_id) && incomingByKey.get(spanKey(s))
+                    return update ? { ...s, ...update, tempLabel: update.label, status: inputStatus(update) } : s
+                })
+            const idByKey = new Map(spans.map(s => [spanKey(s), s.span_id] as [string, number]))
+            const added = toEditableSpans(incoming.filter(s => !idByKey.has(spanKey(s))))
+            added.forEach(s => idByKey.set(spanKey(s), s.span_id))
+            spans = [...spans, ...added]
+            // Input relations refer to input positions, matched to the merged spans through their keys
+            const idOf = (index: number) => {
+                const i = validIndices.indexOf(index)
+                return i < 0 ? undefined : idByKey.get(spanKey(incoming[i]))
+            }
+            validRelations.forEach(r => {
+                const head = idOf(r.head)
+                const child = idOf(r.child)
+                if (head === undefined || child === undefined) return
+                if (doc.relations.some(o => o.head === head && o.child === child && o.label === r.label)) return
+                relations.push({ rel_id: globalRelationCounter++, head, child, label: r.label })
+            })
+        }
+        const ids = new Set(spans.map(s => s.span_id))
+        relations.unshift(...doc.relations.filter(r => ids.has(r.head) && ids.has(r.child)))
+        applySync({ spans, relations }, !textChanged)
+        if (lost) {
+            const were = lost === 1 ? "span was" : "spans were"
+            setSyncNotice(`${lost} edited ${were} removed: the text changed where they start or end.`)
+        }
+    }
+    const latestSync = useRef(syncInput)
+    latestSync.current = syncInput
+    useEffect(() => latestSync.current(), [inputKey])
+
+    const violations = useMemo(() => checkConstraints(reportedSpans, constraints), [reportedSpans, constraints])
+
+    const value: AnnotationValue = useMemo(() => {
+        const reported = {
+            spans: reportedSpans,
+            relations: reportedRelations,
+            events,
+            dirty,
+            version,
+            submitted,
+            issues,
+            violations,
+        }
+        if (!agreement) return reported
+        // The adjudicated gold set: candidates accepted or edited, and spans added, still saying who annotated them
+        const gold = reportedSpans
+            .filter(s => s.status !== "rejected" && s.status !== "pending")
+            .map(({ status: _status, agreement: _agreement, ...span }) => span)
+        return { ...reported, gold, agreement }
+    }, [reportedSpans, reportedRelations, events, dirty, version, submitted, issues, violations, agreement])
+
+    // Read through a ref so a new `onChange` on every render doesn't re-report the value
+    const onChangeRef = useRef(onChange)
+    onChangeRef.current = onChange
+    useEffect(() => {
+        if (submit_only && !value.submitted) return
+        onChangeRef.current?.(value)
+    }, [value, submit_only])
 
-    // 5) Build per-character info for each render
-    const perCharInfo = useMemo(
-        () => assemblePerCharInfo(charArray, componentSpans),
-        [charArray, componentSpans]
+    // The current spans' violations, flagged on the spans themselves
+    const liveViolations = useMemo(
+        () => checkConstraints(orderedSpans.map(toPlainSpan), constraints),
+        [orderedSpans, toPlainSpan, constraints]
     )
+    const problems = useMemo(() => {
+        const out = new Map<number, string>()
+        liveViolations.forEach(v =>
+            [v.span, v.other].forEach(i => {
+                if (i === undefined) return
+                const id = orderedSpans[i].span_id
+                out.set(id, out.has(id) ? `${out.get(id)}\n${v.message}` : v.message)
+            })
+        )
+        return out
+    }, [liveViolations, orderedSpans])
+    const submitBlocked = !!constraints?.block_submit && liveViolations.length > 0
+
+    const handleSubmit = () => {
+        if (submitBlocked) return
+        setDirty(false)
+        setSubmitted(true)
+        setVersion(v => v + 1)
+    }
 
-    // 6) Whenever local spans change, send them up to Streamlit
+    // 7) Unsubmitted work is saved in the browser, per document, and offered back after a reload
+    const storageKey = autosave && editable ? draftKey(draftName, text) : null
+    const [savedDraft, setSavedDraft] = useState<Draft<AnnotationDoc> | null>(null)
     useEffect(() => {
-        const plainSpans = componentSpans.map(({ span_id, editing, tempLabel, render_slot, ...rest }) => rest)
-        Streamlit.setComponentValue(plainSpans)
-    }, [componentSpans])
+        setSavedDraft(storageKey ? loadDraft<AnnotationDoc>(storageKey) : null)
+    }, [storageKey])
 
-    // 7) Re-size the iframe after each render
+    const saveNow = () => {
+        if (!storageKey || !dirty) return
+        saveDraft(storageKey, { saved_at: Date.now(), history: historyState, events })
+        // Editing on instead of restoring replaces the old draft
+        setSavedDraft(null)
+    }
+    const latestSave = useRef(saveNow)
+    latestSave.current = saveNow
+    useEffect(() => {
+        if (!storageKey || !dirty) return
+        const timer = setTimeout(() => latestSave.current(), AUTOSAVE_DELAY)
+        return () => clearTimeout(timer)
+    }, [storageKey, dirty, historyState, events])
+    // A reload can come before the delay is up
     useEffect(() => {
-        Streamlit.setFrameHeight()
-    }, [perCharInfo])
+        const onHide = () => latestSave.current()
+        window.addEventListener("pagehide", onHide)
+        return () => window.removeEventListener("pagehide", onHide)
+    }, [])
+    useEffect(() => {
+        if (storageKey && submitted) clearDraft(storageKey)
+    }, [storageKey, submitted])
+
+    const restoreDraft = () => {
+        if (!savedDraft) return
+        const { history } = savedDraft
+        // New spans and relations get ids after the draft's, so they can't collide
+        ;[...history.past, history.present, ...history.future].forEach(d => {
+            d.spans.forEach(s => (globalSpanCounter = Math.max(globalSpanCounter, s.span_id + 1)))
+            d.relations.forEach(r => (globalRelationCounter = Math.max(globalRelationCounter, r.rel_id + 1)))
+        })
+        syncedDocRef.current = history.present
+        restoreHistory(history)
+        setEvents(savedDraft.events)
+        setDirty(true)
+        setSubmitted(false)
+        setFocusedSpanId(null)
+        setSavedDraft(null)
+    }
+
+    const discardDraft = () => {
+        if (storageKey) clearDraft(storageKey)
+        setSavedDraft(null)
+    }
 
     // Editing logic
     const handleRemoveSpan = (span_id: number) => {
-        setComponentSpans(prev => prev.filter(s => s.span_id !== span_id))
+        // Under review, removing an incoming span rejects it so the decision is reported
+        const span = componentSpans.find(s => s.span_id === span_id)
+        if (span && span.status !== undefined && span.status !== "added") {
+            if (span.status === "rejected") return
+            setComponentSpans(prev =>
+                prev.map(s => (s.span_id === span_id ? { ...s, status: "rejected", editing: false } : s))
+            )
+            return
+        }
+        // Relations can't outlive either of their spans
+        setDoc(d => ({
+            spans: d.spans.filter(s => s.span_id !== span_id),
+            relations: d.relations.filter(r => r.head !== span_id && r.child !== span_id),
+        }))
+        if (focusedSpanId === span_id) setFocusedSpanId(null)
+        if (relationHead === span_id) setRelationHead(null)
+    }
+
+    /** Accept a pending span, or restore a rejected one. */
+    const handleAcceptSpan = (span_id: number) => {
+        setComponentSpans(prev => {
+            const winner = prev.find(s => s.span_id === span_id)
+            if (!winner || (winner.status !== "pending" && winner.status !== "rejected")) return prev
+            return prev.map(s => {
+                if (s === winner) return { ...s, status: "accepted" }
+                // Adjudicating: picking a span rejects the competing readings still pending
+                if (comparison && s.status === "pending" && isAlternative(winner, s)) return { ...s, status: "rejected" }
+                return s
+            })
+        })
+    }
+
+    const handleAcceptAll = () => {
+        setComponentSpans(prev => {
+            if (!prev.some(s => s.status === "pending")) return prev
+            return prev.map(s => (s.status === "pending" ? { ...s, status: "accepted" } : s))
+        })
     }
 
     const handleEditToggle = (span_id: number) => {
@@ -198,169 +781,521 @@ function NerSpanAnnotator({ args }: ComponentProps) {
                         ...s,
                         editing: !s.editing,
                         tempLabel: s.editing ? s.label : s.tempLabel,
+                        tempComment: s.comment ?? "",
+                        tempKbId: s.kb_id ?? "",
                     }
                 }
                 return s
-            })
+            }),
+            false
         )
     }
 
     const handleApproveEdit = (span_id: number) => {
-        setComponentSpans(prev =>
-            prev.map(s => {
-                if (s.span_id === span_id) {
-                    return { ...s, label: s.tempLabel ?? s.label, editing: false }
-                }
-                return s
-            })
+        // Approving without a label or metadata change only closes the editor
+        const span = componentSpans.find(s => s.span_id === span_id)
+        const changed =
+            !!span &&
+            ((span.tempLabel ?? span.label) !== span.label ||
+                (span.tempComment ?? span.comment ?? "") !== (span.comment ?? "") ||
+                (span.tempKbId ?? span.kb_id ?? "") !== (span.kb_id ?? ""))
+        setComponentSpans(
+            prev =>
+                prev.map(s => {
+                    if (s.span_id !== span_id) return s
+                    const { tempComment, tempKbId, comment, kb_id, ...rest } = s
+                    const nextComment = (tempComment ?? comment ?? "").trim()
+                    const nextKbId = (tempKbId ?? kb_id ?? "").trim()
+                    // Approving a pending span unchanged counts as accepting it
+                    const status = changed
+                        ? statusAfterEdit(s)
+                        : s.status === "pending"
+                        ? "accepted"
+                        : s.status
+                    return {
+                        ...rest,
+                        label: s.tempLabel ?? s.label,
+                        editing: false,
+                        status,
+                        ...(nextComment ? { comment: nextComment } : {}),
+                        ...(nextKbId ? { kb_id: nextKbId } : {}),
+                    }
+                }),
+            changed || span?.status === "pending"
+        )
+    }
+
+    const handleMetaChange = (span_id: number, field: "tempComment" | "tempKbId", value: string) => {
+        setComponentSpans(
+            prev => prev.map(s => (s.span_id === span_id ? { ...s, [field]: value } : s)),
+            false
         )
     }
 
     const handleLabelChange = (span_id: number, newLabel: string) => {
         setComponentSpans(prev =>
-            prev.map(s => (s.span_id === span_id ? { ...s, tempLabel: newLabel } : s))
+            prev.map(s => (s.span_id === span_id ? { ...s, tempLabel: newLabel } : s)),
+            false
         )
     }
 
-    // 8) Adjust boundaries in single-char steps
-    function clamp(num: number, minN: number, maxN: number): number {
-        return Math.min(Math.max(num, minN), maxN)
+    // Relation editing
+    const toggleRelationMode = () => {
+        setRelationMode(on => !on)
+        setRelationHead(null)
+        setSelectedRelationId(null)
     }
 
-    // ---------- Word-based boundary adjustments ----------
-    function isWhitespace(ch: string): boolean {
-        return /\s/.test(ch)
+    /** First click picks the head, the second adds a relation to the child. */
+    const handleRelationClick = (span_id: number) => {
+        if (relationHead === null) {
+            setRelationHead(span_id)
+            return
+        }
+        if (relationHead !== span_id) {
+            const label = relationLabels[0] ?? "REL"
+            const exists = relations.some(
+                r => r.head === relationHead && r.child === span_id && r.label === label
+            )
+            if (!exists) {
+                const rel_id = globalRelationCounter++
+                setRelations(prev => [...prev, { rel_id, head: relationHead, child: span_id, label }])
+                setSelectedRelationId(rel_id)
+            }
+        }
+        setRelationHead(null)
     }
 
-    /** Move the start boundary left by one word. */
-    function moveStartLeft(s: EditableSpan): number {
-        if (s.start_token <= 0) return s.start_token
-        let i = s.start_token - 1
-        while (i > 0 && isWhitespace(text[i])) i--
-        while (i > 0 && !isWhitespace(text[i - 1])) i--
-        return Math.max(0, i)
+    const handleRelationLabelChange = (rel_id: number, label: string) => {
+        setRelations(prev => prev.map(r => (r.rel_id === rel_id ? { ...r, label } : r)))
     }
 
-    /** Move the start boundary right by one word. */
-    function moveStartRight(s: EditableSpan): number {
-        if (s.start_token >= text.length - 1) return s.start_token
-        let i = s.start_token
-        const len = text.length
-        // skip current "word"
-        while (i < len && !isWhitespace(text[i])) i++
-        // skip whitespace
-        while (i < len && isWhitespace(text[i])) i++
-        if (i >= s.end_token) {
-            i = s.end_token - 1
-            if (i < 0) i = 0
-        }
-        return i
+    const handleRemoveRelation = (rel_id: number) => {
+        setRelations(prev => prev.filter(r => r.rel_id !== rel_id))
+        setSelectedRelationId(null)
     }
 
-    /** Move the end boundary left by one word. */
-    function moveEndLeft(s: EditableSpan): number {
-        if (s.end_token <= s.start_token + 1) return s.end_token
-        let i = s.end_token - 1
-        while (i > s.start_token && isWhitespace(text[i])) i--
-        while (i > s.start_token && !isWhitespace(text[i - 1])) i--
-        if (i <= s.start_token) i = s.start_token + 1
-        return i
-    }
+    const arcs: ArcSpec[] = useMemo(() => {
+        // Spans hidden by label take their arcs with them
+        const byId = new Map(displaySpans.map(s => [s.span_id, s] as [number, EditableSpan]))
+        return relations.flatMap(r => {
+            const head = byId.get(r.head)
+            const child = byId.get(r.child)
+            if (!head || !child) return []
+            return [
+                {
+                    id: r.rel_id,
+                    label: r.label,
+                    head: [head.start_token, head.end_token] as [number, number],
+                    child: [child.start_token, child.end_token] as [number, number],
+                    selected: r.rel_id === selectedRelationId,
+                },
+            ]
+        })
+    }, [displaySpans, relations, selectedRelationId])
 
-    /** Move the end boundary right by one word. */
-    function moveEndRight(s: EditableSpan): number {
-        if (s.end_token >= text.length) return s.end_token
-        let i = s.end_token
-        const len = text.length
-        // skip whitespace
-        while (i < len && isWhitespace(text[i])) i++
-        // skip next word
-        while (i < len && !isWhitespace(text[i])) i++
-        if (i <= s.start_token) i = s.start_token + 1
-        if (i > len) i = len
-        return i
-    }
+    // The text container the arcs are measured against, with room for them on one side
+    const [textBody, setTextBody] = useState<HTMLDivElement | null>(null)
+    const arcSpace = arcs.length > 0 || relationMode
+    // Clicking a word labels it; the last selection in the text waits for the add button
+    const [clickToSelect, setClickToSelect] = useState(click_to_select)
+    const [lastSelection, setLastSelection] = useState<[number, number] | null>(null)
+
+    // 8) Adjust boundaries by a word (or token) at a time
+    /** Move one edge of a span by a word (or one token in token mode). */
+    const moveEdge = (s: EditableSpan, edge: "start" | "end", dir: "left" | "right") =>
+        tokens
+            ? moveByToken(tokens, s.start_token, s.end_token, edge, dir)
+            : moveByWord(text, s.start_token, s.end_token, edge, dir)
 
+    // Moves that don't change anything return `prev`, so they leave no undo entry
     const adjustStart = (span_id: number, dir: "left" | "right") => {
-        setComponentSpans(prev =>
-            prev.map(s => {
+        setComponentSpans(prev => {
+            const next = prev.map(s => {
                 if (s.span_id !== span_id) return s
-                let newStart = s.start_token
-                if (dir === "left") {
-                    newStart = moveStartLeft(s)
-                } else {
-                    newStart = moveStartRight(s)
-                }
+                let newStart = floorGrapheme(graphemes, moveEdge(s, "start", dir))
                 // clamp so we never invert start >= end
                 if (newStart >= s.end_token) {
-                    newStart = s.end_token - 1
+                    newStart = floorGrapheme(graphemes, s.end_token - 1)
                     if (newStart < 0) newStart = 0
                 }
-                return { ...s, start_token: newStart }
+                return newStart === s.start_token
+                    ? s
+                    : { ...s, start_token: newStart, status: statusAfterEdit(s) }
             })
-        )
+            return next.every((s, i) => s === prev[i]) ? prev : next
+        })
     }
 
     const adjustEnd = (span_id: number, dir: "left" | "right") => {
-        setComponentSpans(prev =>
-            prev.map(s => {
+        setComponentSpans(prev => {
+            const next = prev.map(s => {
                 if (s.span_id !== span_id) return s
-                let newEnd = s.end_token
-                if (dir === "left") {
-                    newEnd = moveEndLeft(s)
-                } else {
-                    newEnd = moveEndRight(s)
-                }
+                let newEnd = ceilGrapheme(graphemes, moveEdge(s, "end", dir))
                 if (newEnd <= s.start_token) {
-                    newEnd = s.start_token + 1
+                    newEnd = ceilGrapheme(graphemes, s.start_token + 1)
                 }
-                return { ...s, end_token: newEnd }
+                return newEnd === s.end_token ? s : { ...s, end_token: newEnd, status: statusAfterEdit(s) }
             })
-        )
+            return next.every((s, i) => s === prev[i]) ? prev : next
+        })
     }
 
-    // 9) Create new span on highlight
-    const handleMouseUp = () => {
-        const sel = window.getSelection()
-        if (!sel || sel.isCollapsed) return
-
-        const range = sel.getRangeAt(0)
-        if (!range) return
+    /** Set a span's label directly, or its pending label while the editor is open. */
+    const relabelSpan = (span_id: number, label: string) => {
+        const span = componentSpans.find(s => s.span_id === span_id)
+        if (!span) return
+        if (span.editing) {
+            handleLabelChange(span_id, label)
+        } else if (span.label !== label) {
+            setComponentSpans(prev =>
+                prev.map(s =>
+                    s.span_id === span_id ? { ...s, label, tempLabel: label, status: statusAfterEdit(s) } : s
+                )
+            )
+        }
+    }
 
-        const startParent = range.startContainer.parentElement
-        const endParent = range.endContainer.parentElement
-        if (!startParent || !endParent) return
+    // 9) Create new span on highlight
+    const adjustRange = (range: [number, number]) =>
+        adjustSelection(text, range, graphemes, constraints?.trim, tokens)
 
-        // We store data-ch-idx on each character
-        const startIdx = parseInt(startParent.getAttribute("data-ch-idx") ?? "-1", 10)
-        const endIdx = parseInt(endParent.getAttribute("data-ch-idx") ?? "-1", 10)
-        if (startIdx < 0 || endIdx < 0) return
+    /** Resolve the current text selection to a [start, end) character range. */
+    const readSelection = (sel: Selection | null): [number, number] | null => {
+        if (!sel || !textBody || sel.isCollapsed || !sel.rangeCount) return null
+        const range = resolveRange(textBody, sel.getRangeAt(0))
+        return range && adjustRange(range)
+    }
 
-        const spanStart = Math.min(startIdx, endIdx)
-        const spanEnd = Math.max(startIdx, endIdx) + 1
-        if (spanEnd <= spanStart || spanEnd > charArray.length) return
+    const readSelectionRef = useRef(readSelection)
+    readSelectionRef.current = readSelection
 
-        const defaultLbl = allowedLabels.length ? allowedLabels[0] : "MISC"
+    /** Add a span over `range`; with no label given, open its editor. */
+    const createSpan = (range: [number, number], label?: string) => {
+        const lbl = label ?? (allowedLabels.length ? allowedLabels[0] : "MISC")
+        if (constraints?.forbid_duplicates) {
+            // Point at the existing span instead of adding a forbidden duplicate
+            const existing = componentSpans.find(
+                s => s.start_token === range[0] && s.end_token === range[1] && s.label === lbl && s.status !== "rejected"
+            )
+            if (existing) {
+                setFocusedSpanId(existing.span_id)
+                return
+            }
+        }
         const newSpan: EditableSpan = {
             span_id: globalSpanCounter++,
-            label: defaultLbl,
-            start_token: spanStart,
-            end_token: spanEnd,
-            editing: true,
-            tempLabel: defaultLbl,
+            label: lbl,
+            start_token: range[0],
+            end_token: range[1],
+            editing: label === undefined,
+            tempLabel: lbl,
+            status: review ? "added" : undefined,
         }
 
         setComponentSpans(prev => [...prev, newSpan])
-        sel.removeAllRanges()
+        setFocusedSpanId(newSpan.span_id)
+    }
+
+    /**
+     * Add a span over the current selection, or over the last one made in the
+     * text (touch keyboards and buttons can take the selection away first).
+     */
+    const createSpanFromSelection = (label?: string, fallback = false): boolean => {
+        const sel = window.getSelection()
+        const range = readSelection(sel) ?? (fallback ? lastSelection : null)
+        if (!range) return false
+        createSpan(range, label)
+        sel?.removeAllRanges()
+        setLastSelection(null)
+        return true
+    }
+
+    /** Add a `label` span over every range that doesn't have one yet, as one undo step. */
+    const labelRanges = (ranges: [number, number][], label: string) => {
+        const added: EditableSpan[] = ranges
+            .filter(([start, end]) =>
+                componentSpans.every(s => s.start_token !== start || s.end_token !== end || s.label !== label)
+            )
+            .map(([start, end]) => ({
+                span_id: globalSpanCounter++,
+                label,
+                start_token: start,
+                end_token: end,
+                tempLabel: label,
+                status: review ? "added" : undefined,
+            }))
+        if (added.length) setComponentSpans(prev => [...prev, ...added])
+    }
+
+    /** Approve a span's edit, then give every identical (whole-word) string the same label. */
+    const handleLabelAll = (span_id: number) => {
+        const span = spanById.get(span_id)
+        if (!span) return
+        const label = span.tempLabel ?? span.label
+        if (span.editing) handleApproveEdit(span_id)
+        const pattern = text.slice(span.start_token, span.end_token)
+        const others = findMatches(text, { pattern, case_sensitive: true, whole_word: true }, tokens).filter(
+            ([start]) => start !== span.start_token
+        )
+        labelRanges(others, label)
+    }
+
+    /** Grab a span edge; moves follow the pointer until it is released (or Esc cancels). */
+    const handleDragStart = (span_id: number, edge: "start" | "end", e: React.PointerEvent) => {
+        const span = spanById.get(span_id)
+        if (!span || e.button !== 0) return
+        e.preventDefault()
+        e.stopPropagation()
+        setFocusedSpanId(span_id)
+        setDrag({ span_id, edge, start: span.start_token, end: span.end_token })
     }
 
-    // 10) Style block is basically the same, except we’re dealing with char-based logic
+    /** Move the dragged edge to the pointer: to token edges if there are tokens (unless Shift), else characters. */
+    const moveDrag = (x: number, y: number, precise: boolean) => {
+        if (!drag || !textBody) return
+        const at = offsetAtPoint(textBody, x, y)
+        if (at === null) return
+        if (drag.edge === "start") {
+            let start = tokens && !precise ? nearestTokenEdge(tokens, at, "start") : floorGrapheme(graphemes, at)
+            start = Math.min(start, floorGrapheme(graphemes, drag.end - 1))
+            if (start !== drag.start) setDrag({ ...drag, start })
+        } else {
+            let end = tokens && !precise ? nearestTokenEdge(tokens, at, "end") : ceilGrapheme(graphemes, at)
+            end = Math.max(end, ceilGrapheme(graphemes, drag.start + 1))
+            if (end !== drag.end) setDrag({ ...drag, end })
+        }
+    }
+
+    /** Release: the new extent becomes one undoable edit. */
+    const endDrag = (commit: boolean) => {
+        if (drag && commit) {
+            setComponentSpans(prev => {
+                const next = prev.map(s =>
+                    s.span_id === drag.span_id && (s.start_token !== drag.start || s.end_token !== drag.end)
+                        ? { ...s, start_token: drag.start, end_token: drag.end, status: statusAfterEdit(s) }
+                        : s
+                )
+                return next.every((s, i) => s === prev[i]) ? prev : next
+            })
+        }
+        setDrag(null)
+    }
+
+    const latestDrag = useRef({ move: moveDrag, end: endDrag })
+    latestDrag.current = { move: moveDrag, end: endDrag }
+    const dragging = drag !== null
+    useEffect(() => {
+        if (!dragging) return
+        const onMove = (e: PointerEvent) => latestDrag.current.move(e.clientX, e.clientY, e.shiftKey)
+        const onUp = () => latestDrag.current.end(true)
+        const onKey = (e: KeyboardEvent) => e.key === "Escape" && latestDrag.current.end(false)
+        window.addEventListener("pointermove", onMove)
+        window.addEventListener("pointerup", onUp)
+        window.addEventListener("keydown", onKey)
+        return () => {
+            window.removeEventListener("pointermove", onMove)
+            window.removeEventListener("pointerup", onUp)
+            window.removeEventListener("keydown", onKey)
+        }
+    }, [dragging])
+
+    /**
+     * Finish a mouse or pen selection; in click-to-select mode, a plain click on
+     * the text labels the word (or token) under it. Touch selections are made
+     * with the system handles and added with the toolbar button instead.
+     */
+    const handlePointerUp = (e: React.PointerEvent) => {
+        if (!editable || drag || e.button !== 0) return
+        if (e.pointerType !== "touch" && createSpanFromSelection()) return
+        const sel = window.getSelection()
+        if (!clickToSelect || !textBody || (sel && !sel.isCollapsed)) return
+        // Only clicks on the text itself, not on label bubbles or their controls
+        if (!(e.target as Element).hasAttribute?.("data-seg-start")) return
+        const at = offsetAtPoint(textBody, e.clientX, e.clientY)
+        const word = at === null ? null : wordAt(text, at, tokens)
+        const range = word && adjustRange(word)
+        if (range) createSpan(range)
+    }
+
+    // Remember the latest selection inside the text, for the "add span" button
+    useEffect(() => {
+        if (!active || !editable || !textBody) return
+        const onChange = () => {
+            const sel = window.getSelection()
+            const range = readSelectionRef.current(sel)
+            if (range) setLastSelection(prev => (prev && prev[0] === range[0] && prev[1] === range[1] ? prev : range))
+            // A tap elsewhere in the text drops it; taps outside (on the button) keep it
+            else if (sel?.isCollapsed && sel.anchorNode && textBody.contains(sel.anchorNode)) setLastSelection(null)
+        }
+        document.addEventListener("selectionchange", onChange)
+        return () => document.removeEventListener("selectionchange", onChange)
+    }, [active, editable, textBody])
+
+    // Stable wrappers, so memoized segments don't re-render for every new closure
+    const latestActions = useRef<SpanActions>(null!)
+    latestActions.current = {
+        focus: setFocusedSpanId,
+        toggleEdit: handleEditToggle,
+        approve: handleApproveEdit,
+        remove: handleRemoveSpan,
+        accept: handleAcceptSpan,
+        changeLabel: handleLabelChange,
+        changeMeta: handleMetaChange,
+        adjustStart,
+        adjustEnd,
+        relationClick: handleRelationClick,
+        labelAll: handleLabelAll,
+        dragStart: handleDragStart,
+    }
+    const spanActions: SpanActions = useMemo(
+        () => ({
+            focus: id => latestActions.current.focus(id),
+            toggleEdit: id => latestActions.current.toggleEdit(id),
+            approve: id => latestActions.current.approve(id),
+            remove: id => latestActions.current.remove(id),
+            accept: id => latestActions.current.accept(id),
+            changeLabel: (id, label) => latestActions.current.changeLabel(id, label),
+            changeMeta: (id, field, value) => latestActions.current.changeMeta(id, field, value),
+            adjustStart: (id, dir) => latestActions.current.adjustStart(id, dir),
+            adjustEnd: (id, dir) => latestActions.current.adjustEnd(id, dir),
+            relationClick: id => latestActions.current.relationClick(id),
+            labelAll: id => latestActions.current.labelAll(id),
+            dragStart: (id, edge, e) => latestActions.current.dragStart(id, edge, e),
+        }),
+        []
+    )
+
+    /** Focus a span picked in the span list and scroll its text into view. */
+    const showSpan = (span_id: number) => {
+        const span = spanById.get(span_id)
+        if (!span) return
+        setFocusedSpanId(span_id)
+        const segment = segments.find(seg => seg.start <= span.start_token && span.start_token < seg.end)
+        const el = segment && textBody?.querySelector(`[data-seg-start="${segment.start}"]`)
+        if (el) el.scrollIntoView({ block: "nearest", behavior: "smooth" })
+    }
+
+    const toggleLabelVisibility = (label: string) => {
+        // Hiding the focused span's label drops the focus, so keys never act on a span out of sight
+        const hiding = !hiddenLabels.has(label)
+        if (hiding && focusedSpanId !== null && spanById.get(focusedSpanId)?.label === label) setFocusedSpanId(null)
+        setHiddenLabels(prev => {
+            const next = new Set(prev)
+            if (!next.delete(label)) next.add(label)
+            return next
+        })
+    }
+
+    // 10) Keyboard workflow: navigate, label, resize, remove, approve/cancel
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (!editable) return
+        const target = e.target as HTMLElement
+        // Form controls inside the edit bubble keep their own keys
+        if (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return
+        if (e.metaKey || e.altKey) return
+
+        const ordered = navigableSpans
+        const focused = ordered.find(s => s.span_id === focusedSpanId) ?? null
+        const step = (delta: number) => {
+            if (!ordered.length) return
+            const idx = focused ? ordered.indexOf(focused) : delta > 0 ? -1 : 0
+            const next = (idx + delta + ordered.length) % ordered.length
+            setFocusedSpanId(ordered[next].span_id)
+        }
+
+        const label = !e.ctrlKey ? labelByHotkey[e.key.toLowerCase()] : undefined
+        if (label !== undefined) {
+            if (!createSpanFromSelection(label) && focused) relabelSpan(focused.span_id, label)
+            e.preventDefault()
+            return
+        }
+
+        switch (e.key) {
+            case "Tab": {
+                // Only from the root itself, and past the last span Tab moves on, so it never traps focus
+                if (!ordered.length || target !== e.currentTarget) return
+                const edge = e.shiftKey ? ordered[0] : ordered[ordered.length - 1]
+                if (focused === edge) {
+                    setFocusedSpanId(null)
+                    return
+                }
+                step(e.shiftKey ? -1 : 1)
+                break
+            }
+            case "ArrowLeft":
+            case "ArrowRight": {
+                // "left"/"right" mean earlier/later in the text, which right-to-left is mirrored
+                const dir = (e.key === "ArrowLeft") !== rtl ? "left" : "right"
+                if (focused && e.shiftKey) adjustStart(focused.span_id, dir)
+                else if (focused && e.ctrlKey) adjustEnd(focused.span_id, dir)
+                else if (!e.shiftKey && !e.ctrlKey) step(dir === "left" ? -1 : 1)
+                else return
+                break
+            }
+            case "Delete":
+            case "Backspace":
+                if (!focused) return
+                handleRemoveSpan(focused.span_id)
+                break
+            case "Enter":
+                if (e.ctrlKey) {
+                    handleSubmit()
+                    break
+                }
+                if (!focused || target.tagName === "BUTTON") return
+                if (focused.editing) handleApproveEdit(focused.span_id)
+                else handleEditToggle(focused.span_id)
+                break
+            case "Escape":
+                if (relationHead !== null) setRelationHead(null)
+                else if (focused?.editing) handleEditToggle(focused.span_id)
+                else setFocusedSpanId(null)
+                break
+            case "a":
+                if (!review || !focused) return
+                handleAcceptSpan(focused.span_id)
+                break
+            default:
+                return
+        }
+        e.preventDefault()
+    }
+
+    const pendingCount = componentSpans.filter(s => s.status === "pending").length
+
+    // 11) Styles for the segments, their span slices and label bubbles, and the panels around them
     const styleTag = (
         <style>
             {`
+      .ner-span-annotator {
+        color: ${themeVar("text")};
+        background: ${themeVar("background")};
+        font-family: ${themeVar("font")};
+        font-size: ${themeVar("font_size")};
+      }
       .token-wrap {
         user-select: text;
       }
+      .sr-only {
+        position: absolute;
+        width: 1px;
+        height: 1px;
+        overflow: hidden;
+        clip-path: inset(50%);
+        white-space: nowrap;
+      }
+      .ner-span-annotator:focus {
+        outline: none;
+      }
+      .ner-span-annotator:focus-visible,
+      .ner-span-annotator button:focus-visible,
+      .ner-span-annotator select:focus-visible,
+      .ner-span-annotator input:focus-visible,
+      .relation-label:focus-visible {
+        outline: 2px solid ${themeVar("primary")};
+        outline-offset: 1px;
+      }
       .span-label {
         position: relative;
         display: inline-flex;
@@ -369,6 +1304,7 @@ function NerSpanAnnotator({ args }: ComponentProps) {
         padding: 0 3px;
         margin-top: 4px;
         border-radius: 3px;
+        color: ${themeVar("label_text")};
       }
       .span-label:hover {
         transform: scale(1.2);
@@ -386,26 +1322,36 @@ function NerSpanAnnotator({ args }: ComponentProps) {
         margin-left: 6px;
         gap: 4px;
       }
-      .span-label:not(:hover):not(.editing) .span-buttons {
-        display: none;
+      .span-label.focused {
+        outline: 2px solid ${themeVar("primary")};
+        outline-offset: 1px;
+        z-index: 20;
+      }
+      /* Hidden until hovered or focused, but still reachable with Tab */
+      .span-label:not(:hover):not(:focus-within):not(.editing):not(.focused) .span-buttons {
+        position: absolute;
+        width: 1px;
+        height: 1px;
+        overflow: hidden;
+        clip-path: inset(50%);
       }
       .edit-btn, .remove-btn {
-        background: #333333;
-        color: white;
+        background: ${themeVar("button")};
+        color: ${themeVar("button_text")};
         border: none;
         border-radius: 3px;
         font-size: 0.6em;
         cursor: pointer;
       }
       .edit-btn:hover, .remove-btn:hover {
-        background: #555;
+        opacity: 0.85;
       }
       .remove-btn {
-        background: #EE0000;
+        background: ${themeVar("danger")};
       }
       .approve-btn {
-        background: #008000;
-        color: white;
+        background: ${themeVar("success")};
+        color: ${themeVar("button_text")};
         border: none;
         border-radius: 3px;
         font-size: 0.6em;
@@ -414,7 +1360,180 @@ function NerSpanAnnotator({ args }: ComponentProps) {
         cursor: pointer;
       }
       .approve-btn:hover {
-        background: #008000;
+        opacity: 0.85;
+      }
+      .accept-btn {
+        background: ${themeVar("success")};
+        color: ${themeVar("button_text")};
+        border: none;
+        border-radius: 3px;
+        font-size: 0.6em;
+        cursor: pointer;
+      }
+      .span-label.pending {
+        outline: 1px dashed ${themeVar("label_text")};
+        font-style: italic;
+      }
+      .span-label.rejected {
+        text-decoration: line-through;
+        opacity: 0.5;
+      }
+      .validation-panel,
+      .sync-notice {
+        background: ${themeVar("warning_bg")};
+        border: 1px solid ${themeVar("warning_border")};
+        border-radius: 3px;
+        padding: 4px 8px;
+        margin-bottom: 6px;
+        font-size: 0.8em;
+        line-height: 1.5;
+      }
+      .sync-notice {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+      .sync-notice button:first-of-type {
+        margin-left: auto;
+      }
+      .validation-panel summary {
+        cursor: pointer;
+        font-weight: bold;
+      }
+      .validation-panel ul {
+        margin: 4px 0 0;
+        padding-left: 18px;
+      }
+      .agreement-panel {
+        border: 1px solid ${themeVar("border")};
+        border-radius: 3px;
+        padding: 4px 8px;
+        margin-bottom: 6px;
+        font-size: 0.8em;
+        line-height: 1.5;
+      }
+      .agreement-panel summary {
+        cursor: pointer;
+        font-weight: bold;
+      }
+      .agreement-panel td,
+      .agreement-panel th {
+        padding: 0 12px 0 0;
+        text-align: left;
+      }
+      .agreement-swatch {
+        margin-left: 8px;
+        padding: 0 4px;
+        border-radius: 3px;
+        font-weight: normal;
+      }
+      /* Comparison mode: the frame says how the annotators agree */
+      .agreement-agree {
+        box-shadow: inset 0 0 0 2px ${themeVar("success")};
+      }
+      .agreement-label {
+        box-shadow: inset 0 0 0 2px ${themeVar("warning")};
+      }
+      .agreement-boundary {
+        box-shadow: inset 0 0 0 2px ${themeVar("danger")};
+      }
+      .agreement-partial,
+      .agreement-unique {
+        box-shadow: inset 0 0 0 2px ${themeVar("muted")};
+      }
+      .span-label.violation {
+        outline: 2px dashed ${themeVar("danger")};
+        outline-offset: 1px;
+      }
+      .violation-mark {
+        margin-left: 3px;
+        color: ${themeVar("danger")};
+      }
+      .toolbar-info.violations {
+        color: ${themeVar("danger")};
+      }
+      .search-bar {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        margin-bottom: 6px;
+        font-size: 0.85em;
+      }
+      .search-bar input {
+        font-size: 0.9em;
+        padding: 2px 4px;
+        width: 14em;
+      }
+      .token-wrap.search-hit {
+        background: ${themeVar("highlight")};
+      }
+      .drag-handle {
+        position: absolute;
+        width: 6px;
+        height: 12px;
+        border-radius: 2px;
+        background: ${themeVar("label_text")};
+        opacity: 0;
+        cursor: ew-resize;
+        touch-action: none;
+        z-index: 15;
+      }
+      .token-wrap:hover .drag-handle,
+      .dragging .drag-handle {
+        opacity: 0.5;
+      }
+      .dragging {
+        user-select: none;
+        cursor: ew-resize;
+      }
+      .label-all-btn {
+        font-size: 1em;
+      }
+      .span-annotators {
+        margin-left: 4px;
+        font-size: 0.8em;
+        font-weight: normal;
+        opacity: 0.75;
+      }
+      .span-label.relation-head {
+        outline: 2px solid ${themeVar("warning")};
+        outline-offset: 1px;
+      }
+      .relation-mode .span-label {
+        cursor: crosshair;
+      }
+      .relation-label {
+        position: absolute;
+        transform: translate(-50%, -50%);
+        background: ${themeVar("surface")};
+        border: 1px solid ${themeVar("muted")};
+        border-radius: 3px;
+        padding: 0 4px;
+        font-size: 0.6em;
+        line-height: 1.6;
+        white-space: nowrap;
+        cursor: pointer;
+        z-index: 30;
+      }
+      .relation-label.selected {
+        border-color: ${themeVar("primary")};
+        display: inline-flex;
+        gap: 4px;
+        align-items: center;
+      }
+      .span-meta {
+        display: inline-flex;
+        flex-direction: column;
+        gap: 2px;
+        margin-left: 6px;
+      }
+      .span-meta input {
+        font-size: 0.6em;
+        width: 120px;
+      }
+      .span-score {
+        margin-left: 3px;
+        opacity: 0.7;
       }
       .editing .remove-btn {
         display: none;
@@ -432,8 +1551,8 @@ function NerSpanAnnotator({ args }: ComponentProps) {
       }
 
       .extend-btn {
-        background: #666;
-        color: #fff;
+        background: ${themeVar("button")};
+        color: ${themeVar("button_text")};
         border: none;
         border-radius: 3px;
         font-size: 0.3em;
@@ -442,193 +1561,584 @@ function NerSpanAnnotator({ args }: ComponentProps) {
         height: 50%;
       }
       .extend-btn:hover {
-        background: #333;
+        opacity: 0.85;
+      }
+
+      .click-select [data-seg-start] {
+        cursor: pointer;
+      }
+
+      .toolbar {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        margin-bottom: 4px;
+      }
+      .submit-btn {
+        background: ${themeVar("success")};
+        margin-left: auto;
+      }
+      .submit-btn.done {
+        opacity: 0.7;
+      }
+      .toolbar-info {
+        font-size: 0.8em;
+        color: ${themeVar("muted")};
+        margin-left: 8px;
+      }
+      .history-btn {
+        background: ${themeVar("button")};
+        color: ${themeVar("button_text")};
+        border: none;
+        border-radius: 3px;
+        font-size: 0.8em;
+        padding: 2px 8px;
+        cursor: pointer;
+      }
+      .history-btn.active {
+        background: ${themeVar("primary")};
+      }
+      .history-btn:disabled {
+        opacity: 0.4;
+        cursor: default;
+      }
+
+      .label-picker {
+        position: relative;
+        display: inline-block;
+        margin-left: 6px;
+      }
+      .label-picker input {
+        width: 110px;
+        font-size: 0.9em;
+      }
+      .label-picker-list {
+        position: absolute;
+        top: 100%;
+        left: 0;
+        z-index: 20;
+        display: flex;
+        flex-direction: column;
+        min-width: 160px;
+        max-height: 200px;
+        overflow-y: auto;
+        background: ${themeVar("surface")};
+        border: 1px solid ${themeVar("border")};
+        border-radius: 3px;
+        box-shadow: 0 2px 6px rgba(0, 0, 0, 0.15);
+        line-height: 1.6;
+      }
+      .label-option {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        border: none;
+        background: none;
+        color: inherit;
+        text-align: left;
+        font-size: 0.9em;
+        padding: 0 6px;
+        cursor: pointer;
+        white-space: nowrap;
+      }
+      .label-option:hover,
+      .label-option.selected {
+        background: ${themeVar("subtle")};
+      }
+      .label-option kbd {
+        margin-left: auto;
+        font-size: 0.8em;
+        opacity: 0.6;
+      }
+      .label-swatch {
+        display: inline-block;
+        width: 10px;
+        height: 10px;
+        border-radius: 2px;
+        margin-right: 3px;
+        vertical-align: middle;
+      }
+      .annotator-body.side {
+        display: flex;
+        gap: 12px;
+        align-items: flex-start;
+      }
+      .annotator-body.side > :first-child {
+        flex: 1;
+        min-width: 0;
+      }
+      .span-list {
+        font-size: 0.8em;
+        line-height: 1.5;
+        border: 1px solid ${themeVar("border")};
+        border-radius: 3px;
+        padding: 4px 8px;
+      }
+      .annotator-body.side .span-list {
+        width: 280px;
+        max-height: 480px;
+        overflow-y: auto;
+      }
+      .annotator-body.bottom .span-list {
+        margin-top: 8px;
+        max-height: 240px;
+        overflow-y: auto;
+      }
+      .span-list-stats {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 2px 10px;
+        margin-bottom: 4px;
+      }
+      .span-list-count {
+        cursor: pointer;
+        white-space: nowrap;
+      }
+      .span-list-controls {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+      }
+      .span-list ul {
+        list-style: none;
+        margin: 4px 0 0;
+        padding: 0;
+      }
+      .span-list-row {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 1px 4px;
+        border-radius: 3px;
+        cursor: pointer;
+      }
+      .span-list-row:hover {
+        background: ${themeVar("subtle")};
+      }
+      .span-list-row.focused {
+        outline: 2px solid ${themeVar("primary")};
+      }
+      .span-list-row.rejected {
+        text-decoration: line-through;
+        opacity: 0.5;
+      }
+      .span-list-row.hidden {
+        opacity: 0.5;
+      }
+      .span-list-label {
+        font-weight: bold;
+      }
+      .span-list-text {
+        flex: 1;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      .span-list-offsets {
+        color: ${themeVar("muted")};
+        font-variant-numeric: tabular-nums;
+      }
+      .span-list-problem {
+        color: ${themeVar("danger")};
+      }
+      .span-list-actions {
+        display: flex;
+        gap: 2px;
+      }
+      .span-list-remove {
+        background: ${themeVar("danger")};
+      }
+      .label-legend {
+        margin-top: 8px;
+        font-size: 0.75em;
+        line-height: 1.6;
+      }
+      .label-legend .legend-group {
+        display: inline-block;
+        margin-right: 16px;
+      }
+      .label-legend .legend-group > .legend-item + .legend-item {
+        opacity: 0.85;
+      }
+      .label-legend .legend-item {
+        margin-right: 8px;
+      }
+      .label-legend kbd {
+        background: ${themeVar("subtle")};
+        border: 1px solid ${themeVar("border")};
+        border-radius: 3px;
+        padding: 0 4px;
+        margin-right: 3px;
+        font-family: inherit;
+      }
+      .hotkey-legend {
+        margin-top: 8px;
+        font-size: 0.75em;
+        line-height: 1.6;
+        color: ${themeVar("muted")};
+      }
+      .hotkey-legend kbd {
+        background: ${themeVar("subtle")};
+        border: 1px solid ${themeVar("border")};
+        border-radius: 3px;
+        padding: 0 4px;
+        margin-right: 3px;
+        font-family: inherit;
+      }
+      .hotkey-legend .legend-item {
+        display: inline-block;
+        margin-right: 12px;
       }
     `}
         </style>
     )
 
-    // 11) Render each character in a <span data-ch-idx=...>.
-    // If no entities for that char, just output the char. If there are entities, draw the layered lines above it.
+    // 12) Render each segment as one <span data-seg-start=...>: plain text as is, spans through
+    // the memoized SpanSegment, which draws their stacked slices and label bubbles.
     return (
-        <div style={{ lineHeight: 2.5, direction: "ltr" }} onMouseUp={handleMouseUp}>
+        <div
+            className={`ner-span-annotator ${editable ? "" : "view-mode"} ${drag ? "dragging" : ""}`}
+            style={{
+                lineHeight: 2.5,
+                direction: rtl ? "rtl" : "ltr",
+                ...themeStyle({ ...theme, ...options.theme }),
+            }}
+            role="group"
+            aria-label={editable ? "Span annotator" : "Annotated text"}
+            // Keyboard focus stays on the root; the focused span is announced as its active descendant
+            aria-activedescendant={
+                editable && focusedSpanId !== null && displaySpans.some(s => s.span_id === focusedSpanId)
+                    ? `nsa-span-${focusedSpanId}`
+                    : undefined
+            }
+            tabIndex={editable ? 0 : undefined}
+            onPointerUp={handlePointerUp}
+            onKeyDown={handleKeyDown}
+        >
             {styleTag}
-            {perCharInfo.map((charInfo, idx) => {
-                const sortedEntities = [...charInfo.entities].sort(
-                    (a, b) => a.render_slot - b.render_slot
-                )
-                const isWhitespace = charInfo.ch.trim() === ""
-                if (!sortedEntities.length || isWhitespace) {
-                    // Just render the single character with data-ch-idx
-                    return (
-                        <span key={idx} className="token-wrap" data-ch-idx={charInfo.idx}>
-                            {charInfo.ch}
+            <div className="sr-only" role="status" aria-live="polite">
+                {announcement}
+            </div>
+            {savedDraft && (
+                <div className="sync-notice" role="status">
+                    Unsaved edits from {new Date(savedDraft.saved_at).toLocaleString()} were found.
+                    <button className="history-btn" onClick={restoreDraft}>
+                        Restore
+                    </button>
+                    <button className="history-btn" onClick={discardDraft}>
+                        Discard
+                    </button>
+                </div>
+            )}
+            {syncNotice && (
+                <div className="sync-notice" role="status">
+                    ⚠ {syncNotice}
+                    <button
+                        className="history-btn"
+                        onClick={() => setSyncNotice(null)}
+                        title="Dismiss"
+                        aria-label="Dismiss"
+                    >
+                        ✕
+                    </button>
+                </div>
+            )}
+            {issues.length > 0 && (
+                <details className="validation-panel">
+                    <summary>⚠ {issues.length} input problem{issues.length === 1 ? "" : "s"}</summary>
+                    <ul>
+                        {issues.map((issue, i) => (
+                            <li key={i}>
+                                {issue.source}
+                                {issue.annotator !== undefined && ` (${issue.annotator})`}
+                                {issue.index !== undefined && ` #${issue.index}`}
+                                {(issue.source === "spans" || issue.source === "annotations") &&
+                                    typeof issue.item === "object" &&
+                                    issue.item !== null && (
+                                    <code> {JSON.stringify(issue.item)}</code>
+                                )}
+                                : {issue.message} ({issue.action})
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+            {agreement && (
+                <details className="agreement-panel">
+                    <summary>
+                        Agreement: exact F1 {agreement.exact_f1.toFixed(2)} · partial F1{" "}
+                        {agreement.partial_f1.toFixed(2)}
+                        <span className="agreement-legend">
+                            <span className="agreement-swatch agreement-agree">agree</span>
+                            <span className="agreement-swatch agreement-label">label</span>
+                            <span className="agreement-swatch agreement-boundary">boundary</span>
+                            <span className="agreement-swatch agreement-unique">one annotator</span>
                         </span>
-                    )
-                }
-
-                // We have one or more spans covering this character.
-                // We'll do the same offset-based approach as the original code.
-                const totalHeight =
-                    top_offset + span_label_offset + top_offset_step * (sortedEntities.length - 1)
-
-                return (
-                    <span
-                        key={idx}
-                        className="token-wrap"
-                        data-ch-idx={charInfo.idx}
-                        style={{
-                            fontWeight: "bold",
-                            display: "inline-block",
-                            position: "relative",
-                            height: totalHeight,
-                            marginRight: "2px",
-                        }}
+                    </summary>
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>Annotators</th>
+                                <th>Exact P / R / F1</th>
+                                <th>Partial P / R / F1</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {agreement.pairs.map(({ a, b, exact, partial }) => (
+                                <tr key={`${a}|${b}`}>
+                                    <td>
+                                        {a} vs {b}
+                                    </td>
+                                    {[exact, partial].map((m, i) => (
+                                        <td key={i}>
+                                            {m.precision.toFixed(2)} / {m.recall.toFixed(2)} / {m.f1.toFixed(2)}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </details>
+            )}
+            {editable && (
+                <div className="toolbar">
+                    <button className="history-btn" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+                        ↶ Undo
+                    </button>
+                    <button className="history-btn" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+                        ↷ Redo
+                    </button>
+                    <button
+                        className="history-btn"
+                        onClick={() => createSpanFromSelection(undefined, true)}
+                        disabled={!lastSelection}
+                        title="Add a span over the selected text"
                     >
-                        {charInfo.ch}
-                        {sortedEntities.map((entity, eIdx) => {
-                            const color = mergedColors[entity.label.toUpperCase()] || defaultColor
-                            const topPos = top_offset + top_offset_step * (entity.render_slot - 1)
-
-                            const spanObj = componentSpans.find(s => s.span_id === entity.span_id)
-                            if (!spanObj) {
-                                // Just draw the color line
-                                return (
-                                    <span
-                                        key={eIdx}
-                                        style={{
-                                            background: color,
-                                            top: topPos,
-                                            height: 4,
-                                            left: -1,
-                                            width: "calc(100% + 2px)",
-                                            position: "absolute",
-                                        }}
-                                    />
-                                )
-                            }
-
-                            const isEditing = !!spanObj.editing
-
+                        ＋ Span
+                    </button>
+                    <button
+                        className={`history-btn ${clickToSelect ? "active" : ""}`}
+                        aria-pressed={clickToSelect}
+                        onClick={() => setClickToSelect(!clickToSelect)}
+                        title="Click a word to add a span over it"
+                    >
+                        ☝ Click words{clickToSelect ? " (on)" : ""}
+                    </button>
+                    {relationLabels.length > 0 && (
+                        <button
+                            className={`history-btn ${relationMode ? "active" : ""}`}
+                            aria-pressed={relationMode}
+                            onClick={toggleRelationMode}
+                            title="Click a span label, then another, to link them"
+                        >
+                            ⤻ Relations{relationMode ? " (on)" : ""}
+                        </button>
+                    )}
+                    {review && (
+                        <>
+                            <button className="history-btn" onClick={handleAcceptAll} disabled={!pendingCount}>
+                                ✓ Accept all remaining
+                            </button>
+                            <span className="toolbar-info">{pendingCount} pending</span>
+                        </>
+                    )}
+                    {liveViolations.length > 0 && (
+                        <span className="toolbar-info violations" title={liveViolations.map(v => v.message).join("\n")}>
+                            ⚠ {liveViolations.length} constraint violation{liveViolations.length === 1 ? "" : "s"}
+                        </span>
+                    )}
+                    <button
+                        className={`history-btn submit-btn ${submitted ? "done" : ""}`}
+                        onClick={handleSubmit}
+                        disabled={submitBlocked}
+                        title={
+                            submitBlocked
+                                ? "Resolve the constraint violations first"
+                                : "Mark the annotation as complete (Ctrl+Enter)"
+                        }
+                    >
+                        {submitted ? "✓ Submitted" : "Submit"}
+                    </button>
+                </div>
+            )}
+            {editable && (
+                <div className="search-bar">
+                    <input
+                        placeholder="Search the text"
+                        aria-label="Search the text"
+                        value={search.pattern}
+                        onChange={e => setSearch({ ...search, pattern: e.target.value })}
+                        onKeyDown={e => e.key === "Escape" && setSearch({ ...search, pattern: "" })}
+                    />
+                    {(
+                        [
+                            ["case_sensitive", "Aa", "Match case"],
+                            ["whole_word", "W", "Whole words only"],
+                            ["regex", ".*", "Regular expression"],
+                        ] as [keyof SearchQuery, string, string][]
+                    ).map(([flag, caption, title]) => (
+                        <button
+                            key={flag}
+                            className={`history-btn ${search[flag] ? "active" : ""}`}
+                            title={title}
+                            aria-label={title}
+                            aria-pressed={!!search[flag]}
+                            onClick={() => setSearch({ ...search, [flag]: !search[flag] })}
+                        >
+                            {caption}
+                        </button>
+                    ))}
+                    {search.pattern && (
+                        <span className="toolbar-info" title={searchError ?? undefined}>
+                            {searchError ? "invalid regex" : `${matches.length} match${matches.length === 1 ? "" : "es"}`}
+                        </span>
+                    )}
+                    <select
+                        value={searchLabel || allowedLabels[0]}
+                        onChange={e => setSearchLabel(e.target.value)}
+                        aria-label="Label for the matches"
+                    >
+                        {allowedLabels.map(label => (
+                            <option key={label} value={label}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        className="history-btn"
+                        disabled={!matches.length || !allowedLabels.length}
+                        onClick={() => labelRanges(matches, searchLabel || allowedLabels[0])}
+                        title="Label every match that doesn't have this label yet"
+                    >
+                        Label all
+                    </button>
+                </div>
+            )}
+            <div className={`annotator-body ${span_list ?? ""}`}>
+                <div
+                    ref={setTextBody}
+                    className={`${relationMode ? "relation-mode" : ""} ${clickToSelect && editable ? "click-select" : ""}`}
+                    style={{
+                        position: "relative",
+                        paddingTop: arcSpace && arc_placement !== "below" ? 60 : 0,
+                        paddingBottom: arcSpace && arc_placement === "below" ? 60 : 0,
+                    }}
+                >
+                    {segments.map(segment => {
+                        if (!segment.entities.length) {
+                            // Plain text, still tagged with its offset for selections
                             return (
-                                <React.Fragment key={eIdx}>
-                                    {/* Horizontal colored slice */}
+                                <span
+                                    key={segment.start}
+                                    className={`token-wrap ${hitSegments.has(segment.start) ? "search-hit" : ""}`}
+                                    data-seg-start={segment.start}
+                                >
+                                    {segment.text}
+                                </span>
+                            )
+                        }
+                        const has = (id: number | null) => segment.entities.some(e => e.span_id === id)
+                        return (
+                            <SpanSegment
+                                key={segment.start}
+                                segment={segment}
+                                spans={segment.entities.map(e => spanById.get(e.span_id) as EditableSpan)}
+                                labels={labelDefs}
+                                segmentStyle={segmentStyle}
+                                focusedId={has(focusedSpanId) ? focusedSpanId : null}
+                                relationHeadId={has(relationHead) ? relationHead : null}
+                                relationMode={relationMode}
+                                problems={problems}
+                                highlighted={hitSegments.has(segment.start)}
+                                actions={spanActions}
+                            />
+                        )
+                    })}
+                    {arcs.length > 0 && (
+                        <RelationArcs
+                            container={textBody}
+                            arcs={arcs}
+                            labels={relationLabels}
+                            layoutKey={active ? segments : null}
+                            placement={arc_placement}
+                            onSelect={editable ? setSelectedRelationId : () => undefined}
+                            onLabelChange={handleRelationLabelChange}
+                            onRemove={handleRemoveRelation}
+                        />
+                    )}
+                </div>
+                {span_list && (
+                    <SpanList
+                        spans={orderedSpans}
+                        text={text}
+                        colors={mergedColors}
+                        focusedId={focusedSpanId}
+                        hiddenLabels={hiddenLabels}
+                        problems={problems}
+                        editable={editable}
+                        toCodePoints={offsets.toCodePoints}
+                        onToggleLabel={toggleLabelVisibility}
+                        onShow={showSpan}
+                        actions={spanActions}
+                    />
+                )}
+            </div>
+            {show_label_legend && labelGroups.length > 0 && (
+                <div className="label-legend">
+                    {labelGroups.map(group => (
+                        <span key={group[0].name} className="legend-group">
+                            {group.map(def => (
+                                <span key={def.name} className="legend-item" title={def.description}>
                                     <span
-                                        style={{
-                                            background: color,
-                                            top: topPos,
-                                            height: 4,
-                                            left: -1,
-                                            width: "calc(100% + 2px)",
-                                            position: "absolute",
-                                        }}
+                                        className="label-swatch"
+                                        style={{ background: mergedColors[def.name.toUpperCase()] }}
                                     />
-                                    {entity.is_start && (
-                                        <span
-                                            style={{
-                                                background: color,
-                                                top: topPos,
-                                                height: 4,
-                                                borderTopLeftRadius: 3,
-                                                borderBottomLeftRadius: 3,
-                                                left: -1,
-                                                width: "calc(100% + 2px)",
-                                                position: "absolute",
-                                            }}
-                                        >
-                                            {/* The "label bubble" we show only at the span start char */}
-                                            <span
-                                                className={`span-label ${isEditing ? "editing" : ""}`}
-                                                style={{ background: color, position: "relative" }}
-                                            >
-                                                {/* Left boundary arrows (only show if editing) */}
-                                                <div className="extend-controls left-extend">
-                                                    <button
-                                                        className="extend-btn"
-                                                        onClick={() => adjustStart(spanObj.span_id, "left")}
-                                                    >
-                                                        ←
-                                                    </button>
-                                                    <button
-                                                        className="extend-btn"
-                                                        onClick={() => adjustStart(spanObj.span_id, "right")}
-                                                    >
-                                                        →
-                                                    </button>
-                                                </div>
-
-                                                {/* The label or dropdown */}
-                                                {isEditing ? (
-                                                    <select
-                                                        style={{ marginLeft: 6 }}
-                                                        value={spanObj.tempLabel}
-                                                        onChange={e =>
-                                                            handleLabelChange(spanObj.span_id, e.target.value)
-                                                        }
-                                                    >
-                                                        {allowedLabels.map(label => (
-                                                            <option key={label} value={label}>
-                                                                {label}
-                                                            </option>
-                                                        ))}
-                                                    </select>
-                                                ) : (
-                                                    spanObj.label
-                                                )}
-
-                                                {/* Edit/Remove/Approve buttons */}
-                                                <span className="span-buttons">
-                                                    {isEditing ? (
-                                                        <button
-                                                            className="approve-btn"
-                                                            onClick={() => handleApproveEdit(spanObj.span_id)}
-                                                        >
-                                                            ✓
-                                                        </button>
-                                                    ) : (
-                                                        <>
-                                                            <button
-                                                                className="edit-btn"
-                                                                onClick={() => handleEditToggle(spanObj.span_id)}
-                                                            >
-                                                                <RiEditFill />
-                                                            </button>
-                                                            <button
-                                                                className="remove-btn"
-                                                                onClick={() => handleRemoveSpan(spanObj.span_id)}
-                                                            >
-                                                                ✕
-                                                            </button>
-                                                        </>
-                                                    )}
-                                                </span>
-
-                                                {/* Right boundary arrows (only if editing) */}
-                                                <div className="extend-controls right-extend">
-                                                    <button
-                                                        className="extend-btn"
-                                                        onClick={() => adjustEnd(spanObj.span_id, "left")}
-                                                    >
-                                                        ←
-                                                    </button>
-                                                    <button
-                                                        className="extend-btn"
-                                                        onClick={() => adjustEnd(spanObj.span_id, "right")}
-                                                    >
-                                                        →
-                                                    </button>
-                                                </div>
-                                            </span>
-                                        </span>
-                                    )}
-                                </React.Fragment>
-                            )
-                        })}
+                                    {editable && hotkeyByLabel[def.name] && <kbd>{hotkeyByLabel[def.name]}</kbd>}
+                                    {def.name}
+                                </span>
+                            ))}
+                        </span>
+                    ))}
+                </div>
+            )}
+            {editable && show_hotkey_legend && (
+                <div className="hotkey-legend">
+                    <span className="legend-item">
+                        <kbd>Tab</kbd>
+                        <kbd>←</kbd>
+                        <kbd>→</kbd>
+                        next/previous span
                     </span>
-                )
-            })}
+                    <span className="legend-item">
+                        <kbd>Shift+←/→</kbd>
+                        move start
+                    </span>
+                    <span className="legend-item">
+                        <kbd>Ctrl+←/→</kbd>
+                        move end
+                    </span>
+                    <span className="legend-item">
+                        <kbd>Enter</kbd>
+                        edit/approve
+                    </span>
+                    <span className="legend-item">
+                        <kbd>Esc</kbd>
+                        cancel
+                    </span>
+                    <span className="legend-item">
+                        <kbd>Del</kbd>
+                        {review ? "reject" : "remove"}
+                    </span>
+                    {review && (
+                        <span className="legend-item">
+                            <kbd>a</kbd>
+                            accept
+                        </span>
+                    )}
+                </div>
+            )}
         </div>
     )
 }
 
-export default withStreamlitConnection(NerSpanAnnotator)
+export default NerSpanAnnotator
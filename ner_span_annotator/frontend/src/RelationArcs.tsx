@@ -0,0 +1,194 @@
+import React, { useCallback, useEffect, useLayoutEffect, useState } from "react"
+import { themeVar } from "./theme"
+
+/** One arc to draw: character ranges of both ends, plus its label and state. */
+export interface ArcSpec {
+    id: number
+    label: string
+    head: [number, number]    // [start, end) of the head span
+    child: [number, number]   // [start, end) of the child span
+    selected: boolean
+}
+
+interface RelationArcsProps {
+    container: HTMLElement | null    // the text body the arcs are drawn over
+    arcs: ArcSpec[]
+    labels: string[]
+    layoutKey: unknown               // anything that changes whenever the text re-renders
+    placement: "above" | "below"
+    onSelect: (id: number | null) => void
+    onLabelChange: (id: number, label: string) => void
+    onRemove: (id: number) => void
+}
+
+interface ArcGeometry {
+    spec: ArcSpec
+    path: string
+    labelX: number
+    labelY: number
+}
+
+/** Screen box of the character at `idx`, found through the segment that holds it. */
+function charRect(container: HTMLElement, idx: number): DOMRect | null {
+    const segments = container.querySelectorAll<HTMLElement>("[data-seg-start]")
+    for (let i = 0; i < segments.length; i++) {
+        const el = segments[i]
+        const start = Number(el.dataset.segStart)
+        const textNode = el.firstChild
+        if (!textNode || textNode.nodeType !== Node.TEXT_NODE) continue
+        const length = (textNode.textContent ?? "").length
+        if (idx < start || idx >= start + length) continue
+        const range = document.createRange()
+        range.setStart(textNode, idx - start)
+        range.setEnd(textNode, idx - start + 1)
+        return range.getBoundingClientRect()
+    }
+    return null
+}
+
+/** Anchor point of a span: the middle of its first line, at the top (or bottom) of the text. */
+function anchor(container: HTMLElement, origin: DOMRect, [start, end]: [number, number], below: boolean) {
+    const a = charRect(container, start)
+    if (!a) return null
+    const b = charRect(container, end - 1) ?? a
+    const sameLine = Math.abs(a.top - b.top) < a.height / 2
+    // Right-to-left, the first character is the rightmost one
+    const [left, right] = sameLine ? [Math.min(a.left, b.left), Math.max(a.right, b.right)] : [a.left, a.right]
+    return {
+        x: (left + right) / 2 - origin.left,
+        y: (below ? a.bottom : a.top) - origin.top,
+    }
+}
+
+// Tells the arrow markers of several mounted annotators apart
+let instances = 0
+
+/**
+ * displaCy-style arcs between spans, drawn above or below the text.
+ * Positions are measured from the rendered characters, so this re-measures
+ * after every layout change and on window resize.
+ */
+function RelationArcs({
+    container,
+    arcs,
+    labels,
+    layoutKey,
+    placement,
+    onSelect,
+    onLabelChange,
+    onRemove,
+}: RelationArcsProps) {
+    const [markerId] = useState(() => `relation-arrow-${++instances}`)
+    const [geometry, setGeometry] = useState<ArcGeometry[]>([])
+    const [size, setSize] = useState({ width: 0, height: 0 })
+
+    const measure = useCallback(() => {
+        if (!container) return
+        const origin = container.getBoundingClientRect()
+        const below = placement === "below"
+        const out: ArcGeometry[] = []
+        arcs.forEach(spec => {
+            const from = anchor(container, origin, spec.head, below)
+            const to = anchor(container, origin, spec.child, below)
+            if (!from || !to) return
+            // Longer arcs rise higher (or hang lower), like dependency arcs
+            const rise = Math.min(60, 18 + Math.abs(to.x - from.x) / 6)
+            const base = below ? Math.max(from.y, to.y) : Math.min(from.y, to.y)
+            const sign = below ? 1 : -1
+            const peak = base + sign * rise
+            out.push({
+                spec,
+                path: `M${from.x},${from.y} C${from.x},${peak} ${to.x},${peak} ${to.x},${to.y}`,
+                labelX: (from.x + to.x) / 2,
+                labelY: base + sign * rise * 0.75,
+            })
+        })
+        setGeometry(out)
+        setSize({ width: container.scrollWidth, height: container.scrollHeight })
+    }, [container, arcs, placement])
+
+    useLayoutEffect(() => measure(), [measure, layoutKey])
+
+    useEffect(() => {
+        window.addEventListener("resize", measure)
+        return () => window.removeEventListener("resize", measure)
+    }, [measure])
+
+    return (
+        <>
+            <svg
+                className="relation-arcs"
+                aria-hidden
+                width={size.width}
+                height={size.height}
+                style={{ position: "absolute", top: 0, left: 0, overflow: "visible", pointerEvents: "none" }}
+            >
+                <defs>
+                    <marker id={markerId} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                        <path d="M0,0 L10,5 L0,10 z" fill="currentColor" />
+                    </marker>
+                </defs>
+                {geometry.map(({ spec, path }) => (
+                    <path
+                        key={spec.id}
+                        d={path}
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth={spec.selected ? 2 : 1.2}
+                        style={{ color: themeVar(spec.selected ? "primary" : "muted") }}
+                        markerEnd={`url(#${markerId})`}
+                    />
+                ))}
+            </svg>
+            {geometry.map(({ spec, labelX, labelY }) => (
+                <span
+                    key={spec.id}
+                    className={`relation-label ${spec.selected ? "selected" : ""}`}
+                    style={{ left: labelX, top: labelY }}
+                    role="button"
+                    tabIndex={0}
+                    aria-label={`Relation ${spec.label}`}
+                    aria-pressed={spec.selected}
+                    onClick={() => onSelect(spec.selected ? null : spec.id)}
+                    onKeyDown={e => {
+                        if (e.target !== e.currentTarget || e.key !== "Enter") return
+                        e.stopPropagation()
+                        onSelect(spec.selected ? null : spec.id)
+                    }}
+                    onPointerUp={e => e.stopPropagation()}
+                >
+                    {spec.selected ? (
+                        <>
+                            <select
+                                aria-label="Relation label"
+                                value={spec.label}
+                                onClick={e => e.stopPropagation()}
+                                onChange={e => onLabelChange(spec.id, e.target.value)}
+                            >
+                                {(labels.includes(spec.label) ? labels : [spec.label, ...labels]).map(label => (
+                                    <option key={label} value={label}>
+                                        {label}
+                                    </option>
+                                ))}
+                            </select>
+                            <button
+                                className="remove-btn"
+                                aria-label="Remove relation"
+                                onClick={e => {
+                                    e.stopPropagation()
+                                    onRemove(spec.id)
+                                }}
+                            >
+                                ✕
+                            </button>
+                        </>
+                    ) : (
+                        spec.label
+                    )}
+                </span>
+            ))}
+        </>
+    )
+}
+
+export default RelationArcs
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from "react"
+import { EditableSpan } from "./types"
+import { SpanActions } from "./SpanSegment"
+import { hashColor } from "./taxonomy"
+
+type SortKey = "position" | "label" | "length"
+
+interface SpanListProps {
+    spans: EditableSpan[]                   // in document order
+    text: string
+    colors: Record<string, string>
+    focusedId: number | null
+    hiddenLabels: Set<string>
+    problems: Map<number, string>           // constraint violations by span_id
+    editable: boolean
+    toCodePoints: (offset: number) => number
+    onToggleLabel: (label: string) => void
+    onShow: (span_id: number) => void       // focus the span and scroll it into view
+    actions: SpanActions
+}
+
+const EXCERPT_LENGTH = 40
+
+/**
+ * Every span as a row (excerpt, label, offsets), sortable and filterable by
+ * label, with per-label counts that also switch labels on and off in the text.
+ */
+function SpanList({
+    spans,
+    text,
+    colors,
+    focusedId,
+    hiddenLabels,
+    problems,
+    editable,
+    toCodePoints,
+    onToggleLabel,
+    onShow,
+    actions,
+}: SpanListProps) {
+    const [sortKey, setSortKey] = useState<SortKey>("position")
+    const [labelFilter, setLabelFilter] = useState("")
+
+    // Rejected suggestions are listed but not counted
+    const counts = useMemo(() => {
+        const out = new Map<string, number>()
+        spans.forEach(s => out.set(s.label, (out.get(s.label) ?? 0) + (s.status === "rejected" ? 0 : 1)))
+        return Array.from(out.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    }, [spans])
+
+    const rows = useMemo(() => {
+        const shown = labelFilter ? spans.filter(s => s.label === labelFilter) : spans
+        if (sortKey === "label") return [...shown].sort((a, b) => a.label.localeCompare(b.label))
+        if (sortKey === "length") {
+            return [...shown].sort((a, b) => b.end_token - b.start_token - (a.end_token - a.start_token))
+        }
+        return shown
+    }, [spans, sortKey, labelFilter])
+
+    const color = (label: string) => colors[label.toUpperCase()] || hashColor(label)
+
+    return (
+        <div className="span-list">
+            <div className="span-list-stats">
+                {counts.map(([label, count]) => (
+                    <label key={label} className="span-list-count" title="Show in the text">
+                        <input
+                            type="checkbox"
+                            checked={!hiddenLabels.has(label)}
+                            onChange={() => onToggleLabel(label)}
+                        />
+                        <span className="label-swatch" style={{ background: color(label) }} aria-hidden />
+                        {label} <b>{count}</b>
+                    </label>
+                ))}
+            </div>
+            <div className="span-list-controls">
+                <select value={labelFilter} onChange={e => setLabelFilter(e.target.value)} aria-label="Filter by label">
+                    <option value="">All labels</option>
+                    {counts.map(([label]) => (
+                        <option key={label} value={label}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+                <select value={sortKey} onChange={e => setSortKey(e.target.value as SortKey)} aria-label="Sort">
+                    <option value="position">By position</option>
+                    <option value="label">By label</option>
+                    <option value="length">By length</option>
+                </select>
+                <span className="toolbar-info">
+                    {rows.length} span{rows.length === 1 ? "" : "s"}
+                </span>
+            </div>
+            <ul aria-label="Spans">
+                {rows.map(span => {
+                    const excerpt = text.slice(span.start_token, span.end_token)
+                    const removeTitle = span.status !== undefined && span.status !== "added" ? "Reject" : "Remove"
+                    return (
+                        <li
+                            key={span.span_id}
+                            className={`span-list-row ${span.span_id === focusedId ? "focused" : ""} ${
+                                span.status === "rejected" ? "rejected" : ""
+                            } ${hiddenLabels.has(span.label) ? "hidden" : ""}`}
+                            title={problems.get(span.span_id)}
+                            tabIndex={0}
+                            aria-current={span.span_id === focusedId || undefined}
+                            onClick={() => onShow(span.span_id)}
+                            onKeyDown={e => {
+                                if (e.target !== e.currentTarget || e.key !== "Enter") return
+                                e.preventDefault()
+                                e.stopPropagation()
+                                onShow(span.span_id)
+                            }}
+                        >
+                            <span className="label-swatch" style={{ background: color(span.label) }} aria-hidden />
+                            <span className="span-list-label">{span.label}</span>
+                            <span className="span-list-text">
+                                {excerpt.length > EXCERPT_LENGTH ? `${excerpt.slice(0, EXCERPT_LENGTH)}…` : excerpt}
+                            </span>
+                            <span className="span-list-offsets">
+                                {toCodePoints(span.start_token)}–{toCodePoints(span.end_token)}
+                            </span>
+                            {problems.has(span.span_id) && (
+                                <span className="span-list-problem" aria-label={problems.get(span.span_id)}>
+                                    ⚠
+                                </span>
+                            )}
+                            {editable && (
+                                <span className="span-list-actions" onClick={e => e.stopPropagation()}>
+                                    <button
+                                        className="history-btn"
+                                        title="Edit"
+                                        aria-label={`Edit ${span.label} “${excerpt}”`}
+                                        onClick={() => {
+                                            onShow(span.span_id)
+                                            if (!span.editing) actions.toggleEdit(span.span_id)
+                                        }}
+                                    >
+                                        ✎
+                                    </button>
+                                    <button
+                                        className="history-btn span-list-remove"
+                                        title={removeTitle}
+                                        aria-label={`${removeTitle} ${span.label} “${excerpt}”`}
+                                        onClick={() => actions.remove(span.span_id)}
+                                    >
+                                        ✕
+                                    </button>
+                                </span>
+                            )}
+                        </li>
+                    )
+                })}
+            </ul>
+        </div>
+    )
+}
+
+export default SpanList
@@ -0,0 +1,460 @@
+import React from "react"
+import { RiEditFill } from "react-icons/ri"
+import { EditableSpan, LabelDef, SpanTemplate } from "./types"
+import { Segment } from "./layout"
+import { hashColor } from "./taxonomy"
+import LabelPicker from "./LabelPicker"
+import { themeVar } from "./theme"
+
+/** Span editing callbacks; the parent keeps their identity stable so segments can memoize. */
+export interface SpanActions {
+    focus: (span_id: number) => void
+    toggleEdit: (span_id: number) => void
+    approve: (span_id: number) => void
+    remove: (span_id: number) => void
+    accept: (span_id: number) => void
+    changeLabel: (span_id: number, label: string) => void
+    changeMeta: (span_id: number, field: "tempComment" | "tempKbId", value: string) => void
+    adjustStart: (span_id: number, dir: "left" | "right") => void
+    adjustEnd: (span_id: number, dir: "left" | "right") => void
+    relationClick: (span_id: number) => void
+    labelAll: (span_id: number) => void
+    dragStart: (span_id: number, edge: "start" | "end", e: React.PointerEvent) => void
+}
+
+/** Layout, color and mode settings shared by all segments. */
+export interface SegmentStyle {
+    top_offset: number
+    span_label_offset: number
+    top_offset_step: number
+    score_threshold: number
+    colors: Record<string, string>
+    text_colors: Record<string, string>    // label text colors where the theme's lacks contrast
+    editable: boolean           // false in view mode: no editing controls
+    template?: SpanTemplate
+    rtl: boolean                // right-to-left text: spans start on the right
+}
+
+const escapeHtml = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;")
+
+/** Replace every `{name}` in a template; unknown placeholders are left alone. */
+function fillTemplate(template: string, values: Record<string, string | number>): string {
+    return template.replace(/\{(\w+)\}/g, (match, name) => (name in values ? String(values[name]) : match))
+}
+
+interface SpanSegmentProps {
+    segment: Segment
+    spans: EditableSpan[]               // one per entry in `segment.entities`
+    labels: LabelDef[]
+    segmentStyle: SegmentStyle
+    focusedId: number | null            // only set when the focused span is in this segment
+    relationHeadId: number | null       // likewise for the pending relation head
+    relationMode: boolean
+    problems: Map<number, string>       // constraint violations by span_id
+    highlighted: boolean                // the segment lies in a search match
+    actions: SpanActions
+}
+
+/** Slice style for a span; confidence fades it, and low confidence also dashes it. */
+function sliceBackground(color: string, score: unknown, threshold: number): React.CSSProperties {
+    if (typeof score !== "number") return { background: color }
+    const opacity = 0.35 + 0.65 * Math.min(Math.max(score, 0), 1)
+    if (score >= threshold) return { background: color, opacity }
+    return {
+        background: `repeating-linear-gradient(90deg, ${color} 0 4px, transparent 4px 7px)`,
+        opacity,
+    }
+}
+
+/** The label bubble with its editing controls, drawn where a span starts. */
+function SpanLabel({
+    span,
+    color,
+    textColor,
+    colors,
+    labels,
+    focused,
+    relationHead,
+    relationMode,
+    problem,
+    editable,
+    rtl,
+    actions,
+}: {
+    span: EditableSpan
+    color: string
+    textColor?: string
+    colors: Record<string, string>
+    labels: LabelDef[]
+    focused: boolean
+    relationHead: boolean
+    relationMode: boolean
+    problem?: string
+    editable: boolean
+    rtl: boolean
+    actions: SpanActions
+}) {
+    const isEditing = !!span.editing
+    // Arrows point where the edge moves on screen: earlier in the text is rightward in RTL
+    const [earlier, later] = rtl ? ["→", "←"] : ["←", "→"]
+    const status = span.status
+    const details = [
+        labels.find(l => l.name === span.label)?.description,
+        typeof span.score === "number" && `score: ${span.score.toFixed(2)}`,
+        span.kb_id && `kb_id: ${span.kb_id}`,
+        span.comment,
+        span.annotators && `${span.annotators.join(", ")} (${span.agreement})`,
+    ]
+        .filter(Boolean)
+        .join("\n")
+    // What a screen reader announces for the bubble; its buttons are named on their own
+    const name = [`${span.label} span`, status, problem && `problem: ${problem}`].filter(Boolean).join(", ")
+    const removeName = status !== undefined && status !== "added" ? "Reject span" : "Remove span"
+
+    return (
+        <span
+            className={`span-label ${isEditing ? "editing" : ""} ${focused ? "focused" : ""} ${status ?? ""} ${
+                relationHead ? "relation-head" : ""
+            } ${span.agreement ? `agreement-${span.agreement}` : ""} ${problem ? "violation" : ""}`}
+            id={`nsa-span-${span.span_id}`}
+            role="group"
+            aria-label={name}
+            style={{ background: color, color: textColor, position: "relative" }}
+            title={details || undefined}
+            onClick={e => {
+                if (!editable) return
+                actions.focus(span.span_id)
+                const onControl = (e.target as HTMLElement).closest("button, select, input")
+                if (relationMode && !onControl) actions.relationClick(span.span_id)
+            }}
+        >
+            {/* Start boundary arrows (only show if editing) */}
+            {editable && (
+                <div className="extend-controls left-extend">
+                    <button
+                        className="extend-btn"
+                        aria-label="Move start earlier"
+                        onClick={() => actions.adjustStart(span.span_id, "left")}
+                    >
+                        {earlier}
+                    </button>
+                    <button
+                        className="extend-btn"
+                        aria-label="Move start later"
+                        onClick={() => actions.adjustStart(span.span_id, "right")}
+                    >
+                        {later}
+                    </button>
+                </div>
+            )}
+
+            {/* The label or dropdown */}
+            {isEditing ? (
+                <LabelPicker
+                    value={span.tempLabel ?? span.label}
+                    labels={labels}
+                    colors={colors}
+                    onChange={label => actions.changeLabel(span.span_id, label)}
+                    onSubmit={() => actions.approve(span.span_id)}
+                />
+            ) : (
+                <>
+                    {span.label}
+                    {typeof span.score === "number" && <span className="span-score">{span.score.toFixed(2)}</span>}
+                    {span.comment && (
+                        <span className="span-score" aria-hidden>
+                            ✎
+                        </span>
+                    )}
+                    {span.annotators && <span className="span-annotators">{span.annotators.join(", ")}</span>}
+                    {problem && (
+                        <span className="violation-mark" title={problem} aria-hidden>
+                            ⚠
+                        </span>
+                    )}
+                </>
+            )}
+
+            {/* Comment and entity link, only while editing */}
+            {isEditing && (
+                <span className="span-meta">
+                    <input
+                        placeholder="comment"
+                        value={span.tempComment ?? ""}
+                        onChange={e => actions.changeMeta(span.span_id, "tempComment", e.target.value)}
+                        onKeyDown={e => e.key === "Enter" && actions.approve(span.span_id)}
+                    />
+                    <input
+                        placeholder="kb_id"
+                        value={span.tempKbId ?? ""}
+                        onChange={e => actions.changeMeta(span.span_id, "tempKbId", e.target.value)}
+                        onKeyDown={e => e.key === "Enter" && actions.approve(span.span_id)}
+                    />
+                </span>
+            )}
+
+            {/* Edit/Remove/Approve buttons */}
+            {editable && (
+                <span className="span-buttons">
+                    {isEditing ? (
+                        <>
+                            <button
+                                className="approve-btn"
+                                aria-label="Approve edit"
+                                onClick={() => actions.approve(span.span_id)}
+                            >
+                                ✓
+                            </button>
+                            <button
+                                className="label-all-btn"
+                                title="Apply this label to all identical strings"
+                                aria-label="Apply this label to all identical strings"
+                                onClick={() => actions.labelAll(span.span_id)}
+                            >
+                                ≡
+                            </button>
+                        </>
+                    ) : status === "rejected" ? (
+                        <button
+                            className="accept-btn"
+                            title="Restore"
+                            aria-label="Restore span"
+                            onClick={() => actions.accept(span.span_id)}
+                        >
+                            ↺
+                        </button>
+                    ) : (
+                        <>
+                            {status === "pending" && (
+                                <button
+                                    className="accept-btn"
+                                    title="Accept"
+                                    aria-label="Accept span"
+                                    onClick={() => actions.accept(span.span_id)}
+                                >
+                                    ✓
+                                </button>
+                            )}
+                            <button
+                                className="edit-btn"
+                                aria-label="Edit span"
+                                onClick={() => actions.toggleEdit(span.span_id)}
+                            >
+                                <RiEditFill aria-hidden />
+                            </button>
+                            <button
+                                className="remove-btn"
+                                aria-label={removeName}
+                                onClick={() => actions.remove(span.span_id)}
+                            >
+                                ✕
+                            </button>
+                        </>
+                    )}
+                </span>
+            )}
+
+            {/* End boundary arrows (only if editing) */}
+            {editable && (
+                <div className="extend-controls right-extend">
+                    <button
+                        className="extend-btn"
+                        aria-label="Move end earlier"
+                        onClick={() => actions.adjustEnd(span.span_id, "left")}
+                    >
+                        {earlier}
+                    </button>
+                    <button
+                        className="extend-btn"
+                        aria-label="Move end later"
+                        onClick={() => actions.adjustEnd(span.span_id, "right")}
+                    >
+                        {later}
+                    </button>
+                </div>
+            )}
+        </span>
+    )
+}
+
+/**
+ * A run of characters covered by the same spans: the text, one colored slice
+ * per span (stacked by render_slot) and the label bubbles of spans starting here.
+ */
+function SpanSegment({
+    segment,
+    spans,
+    labels,
+    segmentStyle,
+    focusedId,
+    relationHeadId,
+    relationMode,
+    problems,
+    highlighted,
+    actions,
+}: SpanSegmentProps) {
+    const { top_offset, span_label_offset, top_offset_step, score_threshold, colors, editable, template } = segmentStyle
+    const maxSlot = Math.max(segment.entities.length, ...segment.entities.map(e => e.render_slot))
+    const totalHeight = top_offset + span_label_offset + top_offset_step * (maxSlot - 1)
+    const placeholders = segment.entities.map((entity, eIdx) => {
+        const span = spans[eIdx]
+        return {
+            bg: escapeHtml(colors[entity.label.toUpperCase()] || hashColor(entity.label)),
+            top_offset: top_offset + top_offset_step * (entity.render_slot - 1),
+            label: escapeHtml(entity.label),
+            kb_id: escapeHtml(span.kb_id ?? ""),
+            kb_link: span.kb_id ? `<span class="span-kb-id">${escapeHtml(span.kb_id)}</span>` : "",
+            score: typeof span.score === "number" ? span.score.toFixed(2) : "",
+        }
+    })
+
+    // In view mode a `span` template renders the whole segment as markup
+    if (!editable && template?.span) {
+        const slices = placeholders.map(values => (template.slice ? fillTemplate(template.slice, values) : ""))
+        const starts = segment.entities.map((entity, eIdx) =>
+            entity.is_start && template.start ? fillTemplate(template.start, placeholders[eIdx]) : ""
+        )
+        // The text keeps its offset, so arcs can still find the characters
+        const text = `<span class="token-wrap" data-seg-start="${segment.start}">${escapeHtml(segment.text)}</span>`
+        const html = fillTemplate(template.span, {
+            text,
+            total_height: totalHeight,
+            span_slices: slices.join(""),
+            span_starts: starts.join(""),
+        })
+        return <span className="span-template" dangerouslySetInnerHTML={{ __html: html }} />
+    }
+
+    return (
+        <span
+            className={`token-wrap ${highlighted ? "search-hit" : ""}`}
+            data-seg-start={segment.start}
+            data-seg-end={segment.end}
+            style={{
+                fontWeight: "bold",
+                display: "inline-block",
+                position: "relative",
+                height: totalHeight,
+            }}
+        >
+            {segment.text}
+            {segment.entities.map((entity, eIdx) => {
+                const span = spans[eIdx]
+                const color = colors[entity.label.toUpperCase()] || hashColor(entity.label)
+                const topPos = placeholders[eIdx].top_offset
+                const status = span.status
+                const slice = {
+                    ...sliceBackground(color, span.score, score_threshold),
+                    // pending spans are faded, rejected ones greyed out
+                    ...(status === "pending" ? { opacity: 0.45 } : {}),
+                    ...(status === "rejected" ? { background: themeVar("border"), opacity: 0.4 } : {}),
+                }
+
+                return (
+                    <React.Fragment key={entity.span_id}>
+                        {/* Horizontal colored slice, or the `slice` template's markup */}
+                        {template?.slice ? (
+                            <span
+                                aria-hidden
+                                style={{ display: "contents" }}
+                                dangerouslySetInnerHTML={{ __html: fillTemplate(template.slice, placeholders[eIdx]) }}
+                            />
+                        ) : (
+                            <span
+                                aria-hidden
+                                style={{
+                                    ...slice,
+                                    top: topPos,
+                                    height: 4,
+                                    left: -1,
+                                    width: "calc(100% + 2px)",
+                                    position: "absolute",
+                                }}
+                            />
+                        )}
+                        {/* Drag handles at the span's edges */}
+                        {editable &&
+                            (["start", "end"] as const)
+                                .filter(edge => (edge === "start" ? entity.is_start : entity.is_end))
+                                .map(edge => (
+                                    <span
+                                        key={edge}
+                                        className="drag-handle"
+                                        aria-hidden
+                                        title={`Drag to move the ${edge}`}
+                                        style={{
+                                            top: topPos - 4,
+                                            [edge === "start" ? "insetInlineStart" : "insetInlineEnd"]: -4,
+                                        }}
+                                        onPointerDown={e => actions.dragStart(span.span_id, edge, e)}
+                                        onMouseDown={e => e.preventDefault()}
+                                    />
+                                ))}
+                        {entity.is_start && (
+                            <span
+                                style={{
+                                    // scored spans keep the faded/dashed slice drawn above
+                                    background: typeof span.score === "number" ? "transparent" : color,
+                                    top: topPos,
+                                    height: 4,
+                                    borderStartStartRadius: 3,
+                                    borderEndStartRadius: 3,
+                                    left: -1,
+                                    width: "calc(100% + 2px)",
+                                    position: "absolute",
+                                }}
+                            >
+                                {/* The "label bubble" we show only where the span starts */}
+                                <SpanLabel
+                                    span={span}
+                                    color={color}
+                                    textColor={segmentStyle.text_colors[entity.label.toUpperCase()]}
+                                    colors={colors}
+                                    labels={labels}
+                                    focused={focusedId === span.span_id}
+                                    relationHead={relationHeadId === span.span_id}
+                                    relationMode={relationMode}
+                                    problem={problems.get(span.span_id)}
+                                    editable={editable}
+                                    rtl={segmentStyle.rtl}
+                                    actions={actions}
+                                />
+                            </span>
+                        )}
+                    </React.Fragment>
+                )
+            })}
+        </span>
+    )
+}
+
+/** Re-render only when this segment's layout or one of its spans actually changed. */
+function sameSegment(a: SpanSegmentProps, b: SpanSegmentProps): boolean {
+    const ea = a.segment.entities
+    const eb = b.segment.entities
+    return (
+        a.segment.start === b.segment.start &&
+        a.segment.text === b.segment.text &&
+        ea.length === eb.length &&
+        ea.every(
+            (e, i) =>
+                e.span_id === eb[i].span_id &&
+                e.label === eb[i].label &&
+                e.is_start === eb[i].is_start &&
+                e.is_end === eb[i].is_end &&
+                e.render_slot === eb[i].render_slot
+        ) &&
+        a.spans.every((s, i) => s === b.spans[i]) &&
+        a.labels === b.labels &&
+        a.segmentStyle === b.segmentStyle &&
+        a.focusedId === b.focusedId &&
+        a.relationHeadId === b.relationHeadId &&
+        a.relationMode === b.relationMode &&
+        ea.every(e => a.problems.get(e.span_id) === b.problems.get(e.span_id)) &&
+        a.highlighted === b.highlighted &&
+        a.actions === b.actions
+    )
+}
+
+export default React.memo(SpanSegment, sameSegment)
@@ -0,0 +1,73 @@
+import React from "react"
+import { fireEvent, render, screen } from "@testing-library/react"
+import { ComponentProps, Streamlit } from "streamlit-component-lib"
+import StreamlitNerSpanAnnotator from "./StreamlitNerSpanAnnotator"
+
+// Without a Streamlit app around it, the component only talks to this mock
+jest.mock("streamlit-component-lib", () => ({
+    Streamlit: { setComponentValue: jest.fn(), setFrameHeight: jest.fn() },
+    withStreamlitConnection: (component: unknown) => component,
+}))
+
+const setComponentValue = Streamlit.setComponentValue as jest.Mock
+// The mocked connection passes the wrapped component through, props and all
+const Adapter = StreamlitNerSpanAnnotator as React.ComponentType<ComponentProps>
+
+const renderAdapter = (args: ComponentProps["args"], theme?: ComponentProps["theme"]) =>
+    render(<Adapter args={args} width={600} disabled={false} theme={theme} />)
+
+beforeEach(() => jest.clearAllMocks())
+
+const lastValue = () => setComponentValue.mock.calls[setComponentValue.mock.calls.length - 1][0]
+
+test("sends edits back to Python", () => {
+    renderAdapter({ text: "Ada Lovelace", spans: [{ start_token: 0, end_token: 12, label: "PER" }], labels: ["PER"] })
+    expect(lastValue().spans).toEqual([{ start_token: 0, end_token: 12, label: "PER" }])
+    expect(Streamlit.setFrameHeight).toHaveBeenCalled()
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove span" }))
+    expect(lastValue().spans).toEqual([])
+    expect(lastValue().dirty).toBe(true)
+})
+
+test("reports offsets as code points, like Python's str", () => {
+    // The emoji is one character in Python and two in JavaScript
+    const { container } = renderAdapter({
+        text: "\u{1F600} Ada",
+        spans: [{ start_token: 2, end_token: 5, label: "PER" }],
+        labels: ["PER"],
+    })
+    expect(container.querySelector('[data-seg-start="3"]')?.firstChild).toHaveTextContent("Ada")
+    fireEvent.click(screen.getByRole("button", { name: "Edit span" }))
+    fireEvent.click(screen.getByRole("button", { name: "Move start earlier" }))
+    expect(lastValue().spans).toEqual([{ start_token: 0, end_token: 5, label: "PER" }])
+})
+
+test("shows the document queue for `documents`", () => {
+    renderAdapter({
+        documents: [
+            { id: "a", text: "First text" },
+            { id: "b", text: "Second text" },
+        ],
+        labels: ["PER"],
+    })
+    expect(screen.getByText("First text")).toBeInTheDocument()
+    expect(lastValue().current).toBe("a")
+})
+
+test("follows the app's theme", () => {
+    const { container } = renderAdapter(
+        { text: "Ada", labels: ["PER"] },
+        {
+            base: "dark",
+            primaryColor: "#ff4b4b",
+            backgroundColor: "#0e1117",
+            secondaryBackgroundColor: "#262730",
+            textColor: "#fafafa",
+            font: "sans-serif",
+        }
+    )
+    const root = container.querySelector<HTMLElement>('[style*="--nsa-primary"]')
+    expect(root?.style.getPropertyValue("--nsa-primary")).toBe("#ff4b4b")
+    expect(root?.style.getPropertyValue("--nsa-text")).toBe("#fafafa")
+})
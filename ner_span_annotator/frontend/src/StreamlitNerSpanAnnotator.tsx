@@ -0,0 +1,60 @@
+import React, { useCallback, useEffect, useMemo } from "react"
+import { Streamlit, withStreamlitConnection, ComponentProps } from "streamlit-component-lib"
+import NerSpanAnnotator from "./NerSpanAnnotator"
+import DocumentQueue from "./DocumentQueue"
+import { AnnotationValue, DocumentsValue } from "./events"
+import { hostTheme } from "./theme"
+
+/**
+ * Streamlit adapter: maps the Python arguments onto the component's props (or
+ * the document queue's, when `documents` is given), sends its value back to
+ * Python, keeps the iframe as tall as the content and follows the app's theme.
+ */
+function StreamlitNerSpanAnnotator({ args, theme }: ComponentProps) {
+    const themeVars = useMemo(() => (theme ? hostTheme(theme) : undefined), [theme])
+    const handleChange = useCallback(
+        (value: AnnotationValue | DocumentsValue) => Streamlit.setComponentValue(value),
+        []
+    )
+
+    // Any change in content height (new spans, arcs, opened panels) resizes the iframe
+    useEffect(() => {
+        Streamlit.setFrameHeight()
+        if (typeof ResizeObserver === "undefined") return
+        const observer = new ResizeObserver(() => Streamlit.setFrameHeight())
+        observer.observe(document.body)
+        return () => observer.disconnect()
+    }, [])
+
+    if (args["documents"] !== undefined && args["documents"] !== null) {
+        return (
+            <DocumentQueue
+                documents={args["documents"]}
+                labels={args["labels"]}
+                options={args["options"]}
+                relationLabels={args["relation_labels"]}
+                onChange={handleChange}
+                theme={themeVars}
+                draftKey={args["draft_key"] ?? undefined}
+            />
+        )
+    }
+
+    return (
+        <NerSpanAnnotator
+            text={args["text"]}
+            spans={args["spans"]}
+            labels={args["labels"]}
+            options={args["options"]}
+            tokens={args["tokens"]}
+            relationLabels={args["relation_labels"]}
+            relations={args["relations"]}
+            annotations={args["annotations"]}
+            onChange={handleChange}
+            theme={themeVars}
+            draftKey={args["draft_key"] ?? undefined}
+        />
+    )
+}
+
+export default withStreamlitConnection(StreamlitNerSpanAnnotator)
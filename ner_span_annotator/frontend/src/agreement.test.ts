@@ -0,0 +1,56 @@
+import { agreementMetrics, isAlternative, mergeAnnotations, pairAgreement } from "./agreement"
+import { Span } from "./types"
+
+const span = (start_token: number, end_token: number, label: string): Span => ({ start_token, end_token, label })
+
+test("isAlternative spots label and boundary mismatches", () => {
+    expect(isAlternative(span(0, 5, "PER"), span(0, 5, "ORG"))).toBe(true)
+    expect(isAlternative(span(0, 5, "PER"), span(2, 8, "PER"))).toBe(true)
+    expect(isAlternative(span(0, 5, "PER"), span(2, 8, "ORG"))).toBe(false)
+    expect(isAlternative(span(0, 5, "PER"), span(0, 5, "PER"))).toBe(false)
+})
+
+test("mergeAnnotations tags every candidate with who annotated it and how they agree", () => {
+    const merged = mergeAnnotations({
+        alice: [span(0, 5, "PER"), span(10, 15, "ORG"), span(20, 25, "LOC"), span(30, 35, "LOC")],
+        bob: [span(0, 5, "PER"), span(10, 15, "LOC"), span(21, 25, "LOC"), span(30, 35, "LOC")],
+        carol: [span(0, 5, "PER"), span(40, 45, "PER")],
+    })
+    expect(merged.map(s => [s.start_token, s.label, s.annotators, s.agreement, s.status])).toEqual([
+        [0, "PER", ["alice", "bob", "carol"], "agree", "accepted"],
+        [10, "ORG", ["alice"], "label", "pending"],
+        [20, "LOC", ["alice"], "boundary", "pending"],
+        [30, "LOC", ["alice", "bob"], "partial", "pending"],
+        [10, "LOC", ["bob"], "label", "pending"],
+        [21, "LOC", ["bob"], "boundary", "pending"],
+        [40, "PER", ["carol"], "unique", "pending"],
+    ])
+})
+
+describe("agreement scores", () => {
+    const a = [span(0, 5, "PER"), span(10, 15, "ORG")]
+    const b = [span(0, 5, "PER"), span(11, 15, "ORG"), span(20, 25, "LOC")]
+
+    test("pairAgreement counts exact and overlapping matches", () => {
+        const { exact, partial } = pairAgreement(a, b)
+        expect(exact).toEqual({ precision: 0.5, recall: 1 / 3, f1: 0.4 })
+        expect(partial.precision).toBe(1)
+        expect(partial.recall).toBeCloseTo(2 / 3)
+        expect(partial.f1).toBeCloseTo(0.8)
+    })
+
+    test("agreementMetrics scores every pair and averages them", () => {
+        const metrics = agreementMetrics({ alice: a, bob: b, carol: a })
+        expect(metrics.pairs.map(p => [p.a, p.b, p.exact.f1])).toEqual([
+            ["alice", "bob", 0.4],
+            ["alice", "carol", 1],
+            ["bob", "carol", 0.4],
+        ])
+        expect(metrics.exact_f1).toBeCloseTo(0.6)
+    })
+
+    test("count empty sets as agreeing", () => {
+        expect(pairAgreement([], []).exact).toEqual({ precision: 1, recall: 1, f1: 1 })
+        expect(agreementMetrics({ alice: a }).exact_f1).toBe(1)
+    })
+})
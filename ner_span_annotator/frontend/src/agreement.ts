@@ -0,0 +1,92 @@
+import { AgreementStatus, Span } from "./types"
+
+/** Precision, recall and F1 of one annotator measured against another. */
+export interface Score {
+    precision: number
+    recall: number
+    f1: number
+}
+
+/** Agreement between two annotators; `a` is scored against `b`, so the F1 is symmetric. */
+export interface PairAgreement {
+    a: string
+    b: string
+    exact: Score       // same offsets and label
+    partial: Score     // overlapping, same label
+}
+
+export interface AgreementMetrics {
+    pairs: PairAgreement[]
+    exact_f1: number      // mean over pairs
+    partial_f1: number
+}
+
+const sameOffsets = (a: Span, b: Span) => a.start_token === b.start_token && a.end_token === b.end_token
+const overlaps = (a: Span, b: Span) => a.start_token < b.end_token && b.start_token < a.end_token
+const identical = (a: Span, b: Span) => sameOffsets(a, b) && a.label === b.label
+
+/** True when `b` is a competing reading of `a`: a label or a boundary mismatch. */
+export function isAlternative(a: Span, b: Span): boolean {
+    if (identical(a, b)) return false
+    return sameOffsets(a, b) || (overlaps(a, b) && a.label === b.label)
+}
+
+/**
+ * Merge the annotators' span sets into candidates: identical spans become one
+ * candidate listing all its `annotators`, each tagged with its `agreement`.
+ * Candidates everybody agrees on start "accepted", the rest "pending".
+ */
+export function mergeAnnotations(sets: Record<string, Span[]>): Span[] {
+    const names = Object.keys(sets)
+    const candidates: Span[] = []
+    names.forEach(name => {
+        sets[name].forEach(span => {
+            const same = candidates.find(c => identical(c, span))
+            if (same) {
+                const annotators = same.annotators ?? []
+                if (!annotators.includes(name)) same.annotators = [...annotators, name]
+            } else {
+                candidates.push({ ...span, annotators: [name] })
+            }
+        })
+    })
+    return candidates.map(c => {
+        const annotators = c.annotators ?? []
+        let agreement: AgreementStatus
+        if (annotators.length === names.length) agreement = "agree"
+        else if (candidates.some(o => sameOffsets(o, c) && o.label !== c.label)) agreement = "label"
+        else if (candidates.some(o => isAlternative(c, o))) agreement = "boundary"
+        else agreement = annotators.length > 1 ? "partial" : "unique"
+        return { ...c, agreement, status: agreement === "agree" ? "accepted" : "pending" }
+    })
+}
+
+function score(matchedA: number, totalA: number, matchedB: number, totalB: number): Score {
+    const precision = totalA ? matchedA / totalA : 1
+    const recall = totalB ? matchedB / totalB : 1
+    const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0
+    return { precision, recall, f1 }
+}
+
+/** Exact and partial-match precision/recall/F1 of `a` against `b`. */
+export function pairAgreement(a: Span[], b: Span[]): { exact: Score; partial: Score } {
+    const partialMatch = (x: Span, y: Span) => overlaps(x, y) && x.label === y.label
+    const count = (from: Span[], to: Span[], match: (x: Span, y: Span) => boolean) =>
+        from.filter(x => to.some(y => match(x, y))).length
+    return {
+        exact: score(count(a, b, identical), a.length, count(b, a, identical), b.length),
+        partial: score(count(a, b, partialMatch), a.length, count(b, a, partialMatch), b.length),
+    }
+}
+
+/** Agreement for every pair of annotators, plus the mean F1s for the document. */
+export function agreementMetrics(sets: Record<string, Span[]>): AgreementMetrics {
+    const names = Object.keys(sets)
+    const pairs: PairAgreement[] = []
+    names.forEach((a, i) =>
+        names.slice(i + 1).forEach(b => pairs.push({ a, b, ...pairAgreement(sets[a], sets[b]) }))
+    )
+    const mean = (f: (p: PairAgreement) => number) =>
+        pairs.length ? pairs.reduce((sum, p) => sum + f(p), 0) / pairs.length : 1
+    return { pairs, exact_f1: mean(p => p.exact.f1), partial_f1: mean(p => p.partial.f1) }
+}
@@ -0,0 +1,32 @@
+/** `caretPositionFromPoint` is the standard, `caretRangeFromPoint` the WebKit/Blink original. */
+type CaretDocument = Document & {
+    caretPositionFromPoint?: (x: number, y: number) => { offsetNode: Node; offset: number } | null
+}
+
+/**
+ * The text offset of the caret position nearest to a screen point, found
+ * through the segment (`data-seg-start`) under it; null outside the text.
+ */
+export function offsetAtPoint(container: HTMLElement, x: number, y: number): number | null {
+    const doc = document as CaretDocument
+    let node: Node | null = null
+    let offset = 0
+    if (doc.caretPositionFromPoint) {
+        const position = doc.caretPositionFromPoint(x, y)
+        if (position) {
+            node = position.offsetNode
+            offset = position.offset
+        }
+    } else if (doc.caretRangeFromPoint) {
+        const range = doc.caretRangeFromPoint(x, y)
+        if (range) {
+            node = range.startContainer
+            offset = range.startOffset
+        }
+    }
+    if (!node || node.nodeType !== Node.TEXT_NODE) return null
+    const segment = node.parentElement
+    if (!segment || !container.contains(segment)) return null
+    const start = segment.getAttribute("data-seg-start")
+    return start === null ? null : parseInt(start, 10) + offset
+}
@@ -0,0 +1,59 @@
+import { checkConstraints, trimRange } from "./constraints"
+import { Span } from "./types"
+
+const span = (start_token: number, end_token: number, label: string, extra: Partial<Span> = {}): Span => ({
+    start_token,
+    end_token,
+    label,
+    ...extra,
+})
+
+describe("trimRange", () => {
+    const text = ' "Paris", '
+
+    test("strips whitespace, or punctuation too", () => {
+        expect(trimRange(text, 0, 10, undefined)).toEqual([0, 10])
+        expect(trimRange(text, 0, 10, "whitespace")).toEqual([1, 9])
+        expect(trimRange(text, 0, 10, "punctuation")).toEqual([2, 7])
+    })
+
+    test("returns null when nothing is left", () => {
+        expect(trimRange(text, 7, 10, "punctuation")).toBeNull()
+        expect(trimRange("   ", 0, 3, "whitespace")).toBeNull()
+    })
+})
+
+describe("checkConstraints", () => {
+    const rules = (violations: ReturnType<typeof checkConstraints>) =>
+        violations.map(v => [v.rule, v.span, v.other ?? v.label])
+
+    test("reports nothing without constraints", () => {
+        expect(checkConstraints([span(0, 5, "A"), span(0, 5, "A")], undefined)).toEqual([])
+    })
+
+    test("allows nesting but not crossing in nested mode", () => {
+        const spans = [span(0, 10, "A"), span(2, 5, "B"), span(8, 12, "C")]
+        expect(rules(checkConstraints(spans, { overlap: "nested" }))).toEqual([["overlap", 0, 2]])
+    })
+
+    test("lets label pairs override the overlap mode", () => {
+        const spans = [span(0, 10, "A"), span(2, 5, "B"), span(2, 5, "C")]
+        const constraints = { overlap: "forbid" as const, allow_overlap: [["A", "*"]] as [string, string][] }
+        expect(rules(checkConstraints(spans, constraints))).toEqual([["overlap", 1, 2]])
+        const stricter = { ...constraints, forbid_overlap: [["A", "C"]] as [string, string][] }
+        expect(rules(checkConstraints(spans, stricter))).toEqual([
+            ["overlap", 0, 2],
+            ["overlap", 1, 2],
+        ])
+    })
+
+    test("flags duplicates, long spans and missing labels, ignoring rejected spans", () => {
+        const spans = [span(0, 5, "A"), span(0, 5, "A"), span(6, 20, "B"), span(6, 20, "B", { status: "rejected" })]
+        const constraints = { forbid_duplicates: true, max_length: 10, required_labels: ["A", "C"] }
+        expect(rules(checkConstraints(spans, constraints))).toEqual([
+            ["duplicate", 1, 0],
+            ["max_length", 2, undefined],
+            ["required_label", undefined, "C"],
+        ])
+    })
+})
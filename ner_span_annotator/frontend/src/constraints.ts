@@ -0,0 +1,86 @@
+import { Span, SpanConstraints } from "./types"
+
+/** A broken constraint; span positions index the list that was checked. */
+export interface ConstraintViolation {
+    rule: "overlap" | "duplicate" | "max_length" | "required_label"
+    span?: number
+    other?: number       // the second span of an overlap or duplicate
+    label?: string       // the missing label of a "required_label"
+    message: string
+}
+
+const WHITESPACE = /\s/
+const PUNCTUATION = /[\s.,;:!?'"`()[\]{}<>«»“”‘’\-–—…/\\|*#]/
+
+/** Shrink [start, end) past whitespace (and punctuation) at both edges; null if nothing is left. */
+export function trimRange(
+    text: string,
+    start: number,
+    end: number,
+    mode: SpanConstraints["trim"]
+): [number, number] | null {
+    if (!mode) return [start, end]
+    const strip = mode === "punctuation" ? PUNCTUATION : WHITESPACE
+    while (start < end && strip.test(text[start])) start++
+    while (end > start && strip.test(text[end - 1])) end--
+    return end > start ? [start, end] : null
+}
+
+const pairMatches = ([x, y]: [string, string], a: string, b: string) => {
+    const is = (rule: string, label: string) => rule === "*" || rule === label
+    return (is(x, a) && is(y, b)) || (is(x, b) && is(y, a))
+}
+
+/** Whether two overlapping spans may overlap; `nested` tells if one contains the other. */
+export function overlapAllowed(constraints: SpanConstraints, a: Span, b: Span, nested: boolean): boolean {
+    if ((constraints.forbid_overlap ?? []).some(pair => pairMatches(pair, a.label, b.label))) return false
+    if ((constraints.allow_overlap ?? []).some(pair => pairMatches(pair, a.label, b.label))) return true
+    const mode = constraints.overlap ?? "allow"
+    return mode === "allow" || (mode === "nested" && nested)
+}
+
+/** Check spans (rejected ones don't count) against the constraints. */
+export function checkConstraints(spans: Span[], constraints: SpanConstraints | undefined): ConstraintViolation[] {
+    if (!constraints) return []
+    const violations: ConstraintViolation[] = []
+    const live = spans.map((span, index) => ({ span, index })).filter(({ span }) => span.status !== "rejected")
+
+    live.forEach(({ span: a, index: i }, n) => {
+        const length = a.end_token - a.start_token
+        if (constraints.max_length !== undefined && length > constraints.max_length) {
+            violations.push({
+                rule: "max_length",
+                span: i,
+                message: `${length} characters, longer than ${constraints.max_length}`,
+            })
+        }
+        live.slice(n + 1).forEach(({ span: b, index: j }) => {
+            if (a.start_token >= b.end_token || b.start_token >= a.end_token) return
+            const sameOffsets = a.start_token === b.start_token && a.end_token === b.end_token
+            if (sameOffsets && a.label === b.label) {
+                if (constraints.forbid_duplicates) {
+                    violations.push({ rule: "duplicate", span: j, other: i, message: `duplicate ${a.label} span` })
+                }
+                return
+            }
+            const nested =
+                (a.start_token <= b.start_token && b.end_token <= a.end_token) ||
+                (b.start_token <= a.start_token && a.end_token <= b.end_token)
+            if (!overlapAllowed(constraints, a, b, nested)) {
+                violations.push({
+                    rule: "overlap",
+                    span: i,
+                    other: j,
+                    message: `${a.label} may not ${nested ? "nest with" : "cross"} ${b.label}`,
+                })
+            }
+        })
+    })
+
+    ;(constraints.required_labels ?? []).forEach(label => {
+        if (!live.some(({ span }) => span.label === label)) {
+            violations.push({ rule: "required_label", label, message: `no ${label} span yet` })
+        }
+    })
+    return violations
+}
@@ -0,0 +1,26 @@
+import { MIN_CONTRAST, contrastRatio, parseColor, readableTextColor } from "./contrast"
+
+test("parseColor reads hex, rgb() and the basic names", () => {
+    expect(parseColor("#fa0")).toEqual([255, 170, 0])
+    expect(parseColor(" #7AECEC ")).toEqual([122, 236, 236])
+    expect(parseColor("#7aececcc")).toEqual([122, 236, 236])
+    expect(parseColor("rgba(10, 20, 30, 0.5)")).toEqual([10, 20, 30])
+    expect(parseColor("white")).toEqual([255, 255, 255])
+    expect(parseColor("hsl(0, 0%, 0%)")).toBeNull()
+    expect(parseColor("var(--nsa-text)")).toBeNull()
+})
+
+test("contrastRatio follows WCAG 2", () => {
+    expect(contrastRatio("#000", "#fff")).toBeCloseTo(21)
+    expect(contrastRatio("#fff", "#000")).toBeCloseTo(21)
+    expect(contrastRatio("#777", "#777")).toBe(1)
+    expect(contrastRatio("#777", "inherit")).toBeNull()
+})
+
+test("readableTextColor only overrides text that is hard to read", () => {
+    expect(readableTextColor("#7aecec", "#000")).toBeNull()
+    expect(readableTextColor("#1a237e", "#000")).toBe("#fff")
+    expect(readableTextColor("#ffeb80", "#fff")).toBe("#000")
+    expect(readableTextColor("var(--x)", "#fff")).toBeNull()
+    expect(contrastRatio("#1a237e", "#fff") as number).toBeGreaterThanOrEqual(MIN_CONTRAST)
+})
@@ -0,0 +1,47 @@
+/** WCAG AA minimum contrast for normal-size text. */
+export const MIN_CONTRAST = 4.5
+
+/** [r, g, b] in 0–255 of a `#rgb`, `#rrggbb` or `rgb()`/`rgba()` color; null for anything else. */
+export function parseColor(color: string): [number, number, number] | null {
+    const c = color.trim().toLowerCase()
+    let m = /^#([0-9a-f]{3}|[0-9a-f]{6})([0-9a-f]{2})?$/.exec(c)
+    if (m) {
+        const hex = m[1].length === 3 ? m[1].replace(/./g, d => d + d) : m[1]
+        return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number]
+    }
+    m = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/.exec(c)
+    if (m) return [Number(m[1]), Number(m[2]), Number(m[3])]
+    if (c === "white") return [255, 255, 255]
+    if (c === "black") return [0, 0, 0]
+    return null
+}
+
+/** Relative luminance as defined by WCAG 2. */
+function luminance([r, g, b]: [number, number, number]): number {
+    const linear = (v: number) => {
+        const s = v / 255
+        return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4)
+    }
+    return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b)
+}
+
+/** The contrast ratio (1–21) of two colors, or null if either can't be parsed. */
+export function contrastRatio(a: string, b: string): number | null {
+    const ca = parseColor(a)
+    const cb = parseColor(b)
+    if (!ca || !cb) return null
+    const [hi, lo] = [luminance(ca), luminance(cb)].sort((x, y) => y - x)
+    return (hi + 0.05) / (lo + 0.05)
+}
+
+/**
+ * A text color for `background`: null while `preferred` is readable on it (or
+ * either color is unknown), else black or white, whichever contrasts more.
+ */
+export function readableTextColor(background: string, preferred: string): string | null {
+    const ratio = contrastRatio(background, preferred)
+    if (ratio === null || ratio >= MIN_CONTRAST) return null
+    const black = contrastRatio(background, "#000") as number
+    const white = contrastRatio(background, "#fff") as number
+    return black >= white ? "#000" : "#fff"
+}
@@ -0,0 +1,46 @@
+import { Draft, clearDraft, draftKey, loadDraft, saveDraft } from "./drafts"
+
+const draft: Draft<number[]> = {
+    saved_at: 1,
+    history: { past: [[1], [1, 2]], present: [1, 2, 3], future: [] },
+    events: [],
+}
+
+test("draftKey tells texts and components apart", () => {
+    expect(draftKey(undefined, "Ada")).toBe(draftKey(undefined, "Ada"))
+    expect(draftKey(undefined, "Ada")).not.toBe(draftKey(undefined, "Adb"))
+    expect(draftKey("doc-1", "Ada")).not.toBe(draftKey("doc-2", "Ada"))
+})
+
+test("saves, loads and clears a draft", () => {
+    const key = draftKey("k", "Ada")
+    expect(loadDraft(key)).toBeNull()
+    expect(saveDraft(key, draft)).toBe(true)
+    expect(loadDraft(key)).toEqual(draft)
+    clearDraft(key)
+    expect(loadDraft(key)).toBeNull()
+})
+
+test("ignores stored values that aren't drafts", () => {
+    window.localStorage.setItem("a", "{not json")
+    window.localStorage.setItem("b", JSON.stringify({ history: {}, events: "none" }))
+    expect(loadDraft("a")).toBeNull()
+    expect(loadDraft("b")).toBeNull()
+})
+
+test("drops the undo history when storage is full", () => {
+    const setItem = jest.spyOn(Storage.prototype, "setItem").mockImplementationOnce(() => {
+        throw new Error("QuotaExceededError")
+    })
+    try {
+        expect(saveDraft("full", draft)).toBe(true)
+        expect(loadDraft<number[]>("full")?.history).toEqual({ past: [], present: [1, 2, 3], future: [] })
+
+        setItem.mockImplementation(() => {
+            throw new Error("QuotaExceededError")
+        })
+        expect(saveDraft("full", draft)).toBe(false)
+    } finally {
+        setItem.mockRestore()
+    }
+})
@@ -0,0 +1,72 @@
+import { HistoryState } from "./history"
+import { EditEvent } from "./events"
+
+/** Unsubmitted work saved in the browser: the undo/redo history and the audit trail. */
+export interface Draft<T> {
+    saved_at: number    // ms since epoch
+    history: HistoryState<T>
+    events: EditEvent[]
+}
+
+const PREFIX = "ner-span-annotator:draft:"
+
+/** FNV-1a, enough to tell texts apart in a storage key. */
+function hashText(text: string): string {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return `${(hash >>> 0).toString(16)}-${text.length}`
+}
+
+/** The storage key of a document: the component's `key` (if any) and its text. */
+export const draftKey = (key: string | undefined, text: string) => `${PREFIX}${key ?? ""}:${hashText(text)}`
+
+// Storage can be missing or blocked (private windows, sandboxed frames); drafts are then skipped
+function storage(): Storage | null {
+    try {
+        return window.localStorage
+    } catch {
+        return null
+    }
+}
+
+/** The draft saved under `key`, or null if there is none (or it can't be read). */
+export function loadDraft<T>(key: string): Draft<T> | null {
+    try {
+        const raw = storage()?.getItem(key)
+        if (!raw) return null
+        const draft = JSON.parse(raw)
+        return draft && typeof draft === "object" && draft.history && Array.isArray(draft.events) ? draft : null
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Save a draft; when storage is full, try again without the undo/redo
+ * snapshots. Returns false if it couldn't be saved at all.
+ */
+export function saveDraft<T>(key: string, draft: Draft<T>): boolean {
+    const store = storage()
+    if (!store) return false
+    const lean = { ...draft, history: { past: [], present: draft.history.present, future: [] } }
+    for (const attempt of [draft, lean]) {
+        try {
+            store.setItem(key, JSON.stringify(attempt))
+            return true
+        } catch {
+            // quota exceeded: retry smaller
+        }
+    }
+    return false
+}
+
+export function clearDraft(key: string): void {
+    try {
+        storage()?.removeItem(key)
+    } catch {
+        // nothing to clear
+    }
+}
@@ -0,0 +1,72 @@
+import { describeEvents, diffRelations, diffSpans } from "./events"
+import { RelationSnapshot } from "./relations"
+import { Span } from "./types"
+
+const ada: Span = { start_token: 0, end_token: 3, label: "PER" }
+const bob: Span = { start_token: 8, end_token: 11, label: "PER" }
+const quote = (s: Span) => "Ada met Bob".slice(s.start_token, s.end_token)
+
+test("diffSpans describes each change by span id", () => {
+    const before = new Map([
+        [1, ada],
+        [2, bob],
+        [3, { ...ada, label: "ORG" }],
+    ])
+    const after = new Map([
+        [1, { ...ada, end_token: 7, label: "ORG" }],
+        [2, { ...bob, status: "accepted" as const }],
+        [3, { ...ada, label: "ORG", comment: "sure?" }],
+        [4, bob],
+    ])
+    expect(diffSpans(before, after, 5)).toEqual([
+        { type: "resize", before: ada, after: after.get(1), timestamp: 5 },
+        { type: "status", before: bob, after: after.get(2), timestamp: 5 },
+        { type: "update", before: before.get(3), after: after.get(3), timestamp: 5 },
+        { type: "add", after: bob, timestamp: 5 },
+    ])
+    expect(diffSpans(new Map([[1, ada]]), new Map(), 5)).toEqual([{ type: "remove", before: ada, timestamp: 5 }])
+    expect(diffSpans(new Map([[1, ada]]), new Map([[1, { ...ada }]]))).toEqual([])
+})
+
+test("diffRelations compares labels only", () => {
+    const met: RelationSnapshot = { label: "MET", head_span: ada, child_span: bob }
+    const knows = { ...met, label: "KNOWS" }
+    expect(diffRelations(new Map([[1, met]]), new Map([[1, { ...met }]]))).toEqual([])
+    expect(diffRelations(new Map([[1, met]]), new Map([[1, knows]]), 5)).toEqual([
+        { type: "relation_relabel", before: met, after: knows, timestamp: 5 },
+    ])
+    expect(diffRelations(new Map([[1, met]]), new Map([[2, knows]]), 5).map(e => e.type)).toEqual([
+        "relation_remove",
+        "relation_add",
+    ])
+})
+
+test("describeEvents sums up a batch in a sentence", () => {
+    const at = { timestamp: 0 }
+    expect(describeEvents([{ type: "add", after: ada, ...at }], quote)).toBe("Added PER “Ada”")
+    expect(describeEvents([{ type: "relabel", before: ada, after: { ...ada, label: "ORG" }, ...at }], quote)).toBe(
+        "Relabeled “Ada” from PER to ORG"
+    )
+    expect(describeEvents([{ type: "status", before: bob, after: { ...bob, status: "rejected" }, ...at }], quote)).toBe(
+        "PER “Bob” rejected"
+    )
+    expect(
+        describeEvents(
+            [
+                { type: "add", after: ada, ...at },
+                { type: "add", after: bob, ...at },
+            ],
+            quote
+        )
+    ).toBe("Added 2 spans")
+    expect(
+        describeEvents(
+            [
+                { type: "add", after: ada, ...at },
+                { type: "remove", before: bob, ...at },
+            ],
+            quote
+        )
+    ).toBe("2 changes")
+    expect(describeEvents([], quote)).toBe("")
+})
@@ -0,0 +1,137 @@
+import { Span } from "./types"
+import { Relation, RelationSnapshot } from "./relations"
+import { ValidationIssue } from "./validation"
+import { AgreementMetrics } from "./agreement"
+import { ConstraintViolation } from "./constraints"
+
+export type EditEventType =
+    | "add"
+    | "remove"
+    | "relabel"
+    | "resize"
+    | "status"
+    | "update"
+    | "relation_add"
+    | "relation_remove"
+    | "relation_relabel"
+
+/** One change to the spans or relations, with the item as it was before and after. */
+export interface EditEvent {
+    type: EditEventType
+    before?: Span | RelationSnapshot
+    after?: Span | RelationSnapshot
+    timestamp: number    // ms since epoch
+}
+
+/** What the component reports back to Python. */
+export interface AnnotationValue {
+    spans: Span[]
+    relations: Relation[]
+    events: EditEvent[]
+    dirty: boolean       // edited since load or the last submit
+    version: number      // bumped on every change
+    submitted: boolean   // the user pressed Submit and hasn't edited since
+    issues: ValidationIssue[]    // problems found in the input arguments
+    violations: ConstraintViolation[]    // broken `options.constraints`, indexing into `spans`
+    gold?: Span[]                // comparison mode: the spans accepted, edited or added
+    agreement?: AgreementMetrics // comparison mode: agreement between the annotators
+}
+
+/** What a document queue reports: the value of every document opened so far, by id. */
+export interface DocumentsValue {
+    documents: Record<string, AnnotationValue>
+    current: string      // id of the document on screen
+    issues: ValidationIssue[]    // problems found in `documents`
+}
+
+/** Classify how a span changed; resizes win over relabels, relabels over status changes. */
+function changeType(before: Span, after: Span): EditEventType {
+    if (before.start_token !== after.start_token || before.end_token !== after.end_token) return "resize"
+    if (before.label !== after.label) return "relabel"
+    if (before.status !== after.status) return "status"
+    return "update"
+}
+
+/**
+ * Describe the difference between two versions of the span set as edit events.
+ * Spans are matched by id; the plain spans are what gets reported.
+ */
+export function diffSpans(
+    before: Map<number, Span>,
+    after: Map<number, Span>,
+    timestamp: number = Date.now()
+): EditEvent[] {
+    const events: EditEvent[] = []
+    before.forEach((prev, id) => {
+        const next = after.get(id)
+        if (!next) {
+            events.push({ type: "remove", before: prev, timestamp })
+        } else if (JSON.stringify(prev) !== JSON.stringify(next)) {
+            events.push({ type: changeType(prev, next), before: prev, after: next, timestamp })
+        }
+    })
+    after.forEach((next, id) => {
+        if (!before.has(id)) events.push({ type: "add", after: next, timestamp })
+    })
+    return events
+}
+
+/** Like `diffSpans`, for relations; their ends never change, so only labels are compared. */
+export function diffRelations(
+    before: Map<number, RelationSnapshot>,
+    after: Map<number, RelationSnapshot>,
+    timestamp: number = Date.now()
+): EditEvent[] {
+    const events: EditEvent[] = []
+    before.forEach((prev, id) => {
+        const next = after.get(id)
+        if (!next) {
+            events.push({ type: "relation_remove", before: prev, timestamp })
+        } else if (prev.label !== next.label) {
+            events.push({ type: "relation_relabel", before: prev, after: next, timestamp })
+        }
+    })
+    after.forEach((next, id) => {
+        if (!before.has(id)) events.push({ type: "relation_add", after: next, timestamp })
+    })
+    return events
+}
+
+/**
+ * A short sentence about a batch of changes, for screen readers; `quote`
+ * gives a span's text. Several changes are summed up by count.
+ */
+export function describeEvents(events: EditEvent[], quote: (span: Span) => string): string {
+    if (events.length > 1) {
+        const n = events.length
+        const types = new Set(events.map(e => e.type))
+        if (types.size === 1 && types.has("add")) return `Added ${n} spans`
+        if (types.size === 1 && types.has("remove")) return `Removed ${n} spans`
+        return `${n} changes`
+    }
+    const [event] = events
+    if (!event) return ""
+    const span = (event.after ?? event.before) as Span
+    const relation = (event.after ?? event.before) as RelationSnapshot
+    const before = event.before as Span
+    switch (event.type) {
+        case "add":
+            return `Added ${span.label} “${quote(span)}”`
+        case "remove":
+            return `Removed ${span.label} “${quote(span)}”`
+        case "relabel":
+            return `Relabeled “${quote(span)}” from ${before.label} to ${span.label}`
+        case "resize":
+            return `${span.label} is now “${quote(span)}”`
+        case "status":
+            return `${span.label} “${quote(span)}” ${span.status ?? "updated"}`
+        case "update":
+            return `Updated ${span.label} “${quote(span)}”`
+        case "relation_add":
+            return `Added relation ${relation.label}`
+        case "relation_remove":
+            return `Removed relation ${relation.label}`
+        case "relation_relabel":
+            return `Relation is now ${relation.label}`
+    }
+}
@@ -0,0 +1,164 @@
+import {
+    AnnotatedDoc,
+    fromBrat,
+    fromConll,
+    fromLabelStudio,
+    fromProdigy,
+    fromSpacyJson,
+    fromTags,
+    parseJsonl,
+    toBrat,
+    toConll,
+    toJsonl,
+    toLabelStudio,
+    toProdigy,
+    toSpacyJson,
+    toTags,
+    whitespaceTokens,
+} from "./formats"
+
+const doc: AnnotatedDoc = {
+    text: "Ada Lovelace met Charles Babbage in London.\nThey wrote notes.",
+    spans: [
+        { start_token: 0, end_token: 12, label: "PER" },
+        { start_token: 17, end_token: 32, label: "PER", kb_id: "Q46633" },
+        { start_token: 36, end_token: 43, label: "LOC" },
+    ],
+    relations: [{ head: 0, child: 1, label: "MET" }],
+}
+
+const offsets = (d: AnnotatedDoc) => d.spans.map(s => [s.start_token, s.end_token, s.label])
+
+test("whitespaceTokens splits on whitespace and flags trailing spaces", () => {
+    expect(whitespaceTokens(" a bc\n")).toEqual([
+        { text: "a", start: 1, end: 2, ws: true },
+        { text: "bc", start: 3, end: 5, ws: true },
+    ])
+})
+
+describe("tags", () => {
+    const text = "Ada Lovelace met Charles Babbage"
+    const tokens = whitespaceTokens(text)
+    const spans = [
+        { start_token: 0, end_token: 12, label: "PER" },
+        { start_token: 17, end_token: 24, label: "PER" },
+    ]
+
+    test("round-trip through BIO and BILOU", () => {
+        expect(toTags(tokens, spans).tags).toEqual(["B-PER", "I-PER", "O", "B-PER", "O"])
+        expect(toTags(tokens, spans, "BILOU").tags).toEqual(["B-PER", "L-PER", "O", "U-PER", "O"])
+        expect(fromTags(tokens, toTags(tokens, spans).tags)).toEqual(spans)
+        expect(fromTags(tokens, toTags(tokens, spans, "BILOU").tags)).toEqual(spans)
+    })
+
+    test("read IOB1, where I- starts a span", () => {
+        expect(fromTags(tokens, ["I-PER", "I-PER", "O", "I-LOC", "B-LOC"])).toEqual([
+            { start_token: 0, end_token: 12, label: "PER" },
+            { start_token: 17, end_token: 24, label: "LOC" },
+            { start_token: 25, end_token: 32, label: "LOC" },
+        ])
+    })
+
+    test("report overlapping and misaligned spans", () => {
+        const { tags, conflicts } = toTags(tokens, [
+            { start_token: 4, end_token: 24, label: "X" },
+            { start_token: 17, end_token: 32, label: "PER" },
+            { start_token: 1, end_token: 3, label: "Y" },
+        ])
+        // Y is widened to "Ada"; PER starts inside X, which was written first
+        expect(tags).toEqual(["B-Y", "B-X", "I-X", "I-X", "O"])
+        expect(conflicts.map(c => [c.index, c.reason])).toEqual([
+            [1, "overlap"],
+            [2, "misaligned"],
+        ])
+    })
+})
+
+test("CoNLL round trip", () => {
+    const { data, conflicts } = toConll(doc)
+    expect(conflicts).toEqual([])
+    expect(data.split("\n").slice(0, 3)).toEqual(["Ada _ _ B-PER", "Lovelace _ _ I-PER", "met _ _ O"])
+    const back = fromConll(data)
+    expect(back.text).toBe("Ada Lovelace met Charles Babbage in London.\nThey wrote notes.")
+    expect(offsets(back)).toEqual([
+        [0, 12, "PER"],
+        [17, 32, "PER"],
+        [36, 43, "LOC"],
+    ])
+})
+
+test("spaCy JSON round trip", () => {
+    const { data, conflicts } = toSpacyJson(doc)
+    expect(conflicts).toEqual([])
+    const back = fromSpacyJson(JSON.parse(JSON.stringify(data)))
+    expect(back.text).toBe(doc.text)
+    expect(back.spans).toEqual(doc.spans)
+    expect(back.tokens).toEqual(whitespaceTokens(doc.text))
+})
+
+test("brat round trip, with fragments across line breaks", () => {
+    const text = "New\nYork"
+    const ann = toBrat({ text, spans: [{ start_token: 0, end_token: 8, label: "LOC", comment: "two lines" }] })
+    expect(ann).toBe("T1\tLOC 0 3;4 8\tNew York\n#1\tAnnotatorNotes T1\ttwo lines\n")
+    expect(fromBrat(text, ann).spans).toEqual([{ start_token: 0, end_token: 8, label: "LOC", comment: "two lines" }])
+
+    const back = fromBrat(doc.text, toBrat(doc))
+    expect(back.spans).toEqual(doc.spans)
+    expect(back.relations).toEqual(doc.relations)
+})
+
+test("Prodigy round trip through JSONL", () => {
+    const [record] = parseJsonl(toJsonl([toProdigy(doc)]))
+    const back = fromProdigy(record)
+    expect(back.text).toBe(doc.text)
+    expect(offsets(back)).toEqual(offsets(doc))
+    expect(back.relations).toEqual(doc.relations)
+})
+
+test("Label Studio round trip", () => {
+    const back = fromLabelStudio(toLabelStudio(doc))
+    expect(back.text).toBe(doc.text)
+    expect(offsets(back)).toEqual(offsets(doc))
+    expect(back.relations).toEqual(doc.relations)
+})
+
+test("readers skip malformed spans, tokens and relations", () => {
+    const spacy = fromSpacyJson({
+        text: "Ada met Bob",
+        ents: [{ start: 0, end: 3, label: "PER", kb_id: 7 }, { start: "8", end: 11, label: "PER" }, null],
+        tokens: [{ start: 0, end: 3 }, { start: 4 }, "met"],
+    })
+    expect(spacy.spans).toEqual([{ start_token: 0, end_token: 3, label: "PER" }])
+    expect(spacy.tokens).toEqual([{ text: "Ada", start: 0, end: 3, ws: false }])
+
+    const prodigy = fromProdigy({
+        text: "Ada met Bob",
+        spans: [{ start: 0, end: 3, label: "PER", source: "model" }, { start: 8, end: 11 }, 42],
+        tokens: [{ text: "Ada", start: 0, end: 3, ws: "yes" }, { start: 4, end: 7 }],
+        relations: [
+            { head_span: { start: 0, end: 3, label: "PER" }, child_span: { start: 0, end: 3, label: "PER" } },
+            { head_span: "Ada", child_span: { start: 0, end: 3, label: "PER" }, label: "SELF" },
+        ],
+    })
+    expect(prodigy.spans).toEqual([{ start_token: 0, end_token: 3, label: "PER", source: "model" }])
+    expect(prodigy.tokens).toEqual([{ text: "Ada", start: 0, end: 3, ws: false }])
+    expect(prodigy.relations).toBeUndefined()
+
+    const studio = fromLabelStudio({
+        data: { text: "Ada met Bob" },
+        annotations: [
+            {
+                result: [
+                    { id: "a", value: { start: 0, end: 3, labels: ["PER"] }, score: "high" },
+                    { id: "b", value: { start: 8, end: "11", labels: ["PER"] } },
+                    { id: "c", value: { start: 8, end: 11, labels: [null] } },
+                    { type: "relation", from_id: "a", to_id: "a", labels: [3] },
+                    "oops",
+                ],
+            },
+        ],
+    })
+    expect(studio.spans).toEqual([{ start_token: 0, end_token: 3, label: "PER" }])
+    expect(studio.relations).toEqual([{ head: 0, child: 0, label: "" }])
+    expect(fromLabelStudio({ data: { text: 5 } })).toEqual({ text: "", spans: [] })
+})
@@ -0,0 +1,458 @@
+import { Relation } from "./relations"
+import { Token, normalizeTokens, snapToTokens } from "./tokens"
+import { Span } from "./types"
+
+/** A text with its annotations: what every reader returns and every writer takes. */
+export interface AnnotatedDoc {
+    text: string
+    spans: Span[]
+    relations?: Relation[]
+    tokens?: Token[]
+}
+
+/** Tag schemes for token-level export; "BIO" and "IOB2" are the same scheme. */
+export type TagScheme = "BIO" | "IOB2" | "BILOU"
+
+/** A span a writer couldn't represent as given, with its position in the input list. */
+export interface ExportConflict {
+    index: number
+    span: Span
+    reason: "overlap" | "misaligned"
+    message: string
+}
+
+/** Split on whitespace; the fallback tokenization when a document has no `tokens`. */
+export function whitespaceTokens(text: string): Token[] {
+    const tokens: Token[] = []
+    const re = /\S+/g
+    let m: RegExpExecArray | null
+    while ((m = re.exec(text)) !== null) {
+        const end = m.index + m[0].length
+        tokens.push({ text: m[0], start: m.index, end, ws: end < text.length && /\s/.test(text[end]) })
+    }
+    return tokens
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function asList(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : []
+}
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+/** A span from fields read off some format, or null when they aren't numbers and a label. */
+function readSpan(start: unknown, end: unknown, label: unknown): Span | null {
+    if (!isNumber(start) || !isNumber(end) || typeof label !== "string") return null
+    return { start_token: start, end_token: end, label }
+}
+
+/** Token range of every span in document order, widening spans that end mid-token. */
+function alignSpans(tokens: Token[], spans: Span[]) {
+    const conflicts: ExportConflict[] = []
+    const aligned: { index: number; token_start: number; token_end: number }[] = []
+    spans.forEach((span, index) => {
+        const range = snapToTokens(tokens, span.start_token, span.end_token)
+        if (!range) {
+            conflicts.push({ index, span, reason: "misaligned", message: "covers no token; left out" })
+            return
+        }
+        if (range.start !== span.start_token || range.end !== span.end_token) {
+            conflicts.push({
+                index,
+                span,
+                reason: "misaligned",
+                message: `doesn't match token boundaries; widened to [${range.start}, ${range.end})`,
+            })
+        }
+        aligned.push({ index, token_start: range.token_start, token_end: range.token_end })
+    })
+    // Longer spans first, so a nested span is the one reported as overlapping
+    aligned.sort((a, b) => a.token_start - b.token_start || b.token_end - a.token_end)
+    return { aligned, conflicts }
+}
+
+/**
+ * One tag per token. Tags can't overlap, so every span overlapping one
+ * already written is left out and reported in `conflicts`.
+ */
+export function toTags(
+    tokens: Token[],
+    spans: Span[],
+    scheme: TagScheme = "BIO"
+): { tags: string[]; conflicts: ExportConflict[] } {
+    const sorted = normalizeTokens(tokens)
+    const tags = sorted.map(() => "O")
+    const { aligned, conflicts } = alignSpans(sorted, spans)
+    aligned.forEach(({ index, token_start, token_end }) => {
+        const span = spans[index]
+        if (tags.slice(token_start, token_end).some(t => t !== "O")) {
+            conflicts.push({ index, span, reason: "overlap", message: "overlaps another span; left out" })
+            return
+        }
+        for (let i = token_start; i < token_end; i++) {
+            let prefix = i === token_start ? "B" : "I"
+            if (scheme === "BILOU") {
+                if (token_end - token_start === 1) prefix = "U"
+                else if (i === token_end - 1) prefix = "L"
+            }
+            tags[i] = `${prefix}-${span.label}`
+        }
+    })
+    conflicts.sort((a, b) => a.index - b.index)
+    return { tags, conflicts }
+}
+
+/**
+ * Read spans from tags in any of BIO/IOB2, IOB1 or BILOU (also BIOES):
+ * an "I-" tag that doesn't continue a span of the same label starts a new one.
+ */
+export function fromTags(tokens: Token[], tags: string[]): Span[] {
+    const sorted = normalizeTokens(tokens)
+    const spans: Span[] = []
+    let open: { label: string; first: number; last: number } | null = null
+    const close = () => {
+        if (open) spans.push({ start_token: sorted[open.first].start, end_token: sorted[open.last].end, label: open.label })
+        open = null
+    }
+    tags.slice(0, sorted.length).forEach((tag, i) => {
+        const m = /^([BIOLUES])-(.+)$/.exec(tag)
+        if (!m) {
+            close()
+            return
+        }
+        const [, prefix, label] = m
+        if (open && open.label === label && (prefix === "I" || prefix === "L" || prefix === "E")) {
+            open.last = i
+        } else {
+            close()
+            open = { label, first: i, last: i }
+        }
+        if (prefix === "L" || prefix === "U" || prefix === "E" || prefix === "S") close()
+    })
+    close()
+    return spans
+}
+
+/**
+ * Read CoNLL-2003 style columns: the token first, its NER tag last, sentences
+ * separated by blank lines (and `-DOCSTART-`). Tokens are joined by spaces and
+ * sentences by newlines to form the text.
+ */
+export function fromConll(data: string): AnnotatedDoc {
+    let text = ""
+    const tokens: Token[] = []
+    const spans: Span[] = []
+    let words: string[] = []
+    let tags: string[] = []
+    const endSentence = () => {
+        if (!words.length) return
+        if (text) text += "\n"
+        const sentence: Token[] = words.map(word => {
+            const start = text.length
+            text += word
+            const token = { text: word, start, end: text.length, ws: true }
+            text += " "
+            return token
+        })
+        text = text.slice(0, -1)
+        sentence[sentence.length - 1].ws = false
+        tokens.push(...sentence)
+        spans.push(...fromTags(sentence, tags))
+        words = []
+        tags = []
+    }
+    data.split(/\r?\n/).forEach(line => {
+        const cols = line.trim().split(/\s+/)
+        if (!cols[0] || cols[0] === "-DOCSTART-") {
+            endSentence()
+            return
+        }
+        words.push(cols[0])
+        tags.push(cols.length > 1 ? cols[cols.length - 1] : "O")
+    })
+    endSentence()
+    return { text, spans, tokens }
+}
+
+/**
+ * Write CoNLL-2003 style columns (`token _ _ tag`), starting a new sentence
+ * wherever the text between two tokens contains a line break.
+ */
+export function toConll(doc: AnnotatedDoc, scheme: TagScheme = "BIO"): { data: string; conflicts: ExportConflict[] } {
+    const tokens = normalizeTokens(doc.tokens && doc.tokens.length ? doc.tokens : whitespaceTokens(doc.text))
+    const { tags, conflicts } = toTags(tokens, doc.spans, scheme)
+    const lines: string[] = []
+    tokens.forEach((token, i) => {
+        if (i > 0 && doc.text.slice(tokens[i - 1].end, token.start).includes("\n")) lines.push("")
+        lines.push(`${token.text} _ _ ${tags[i]}`)
+    })
+    return { data: lines.join("\n") + "\n", conflicts }
+}
+
+/**
+ * Read spaCy's `Doc.to_json()`: spans from the `key` span group, or from
+ * `ents` when the group is missing.
+ */
+export function fromSpacyJson(json: unknown, key: string = "sc"): AnnotatedDoc {
+    const data = isRecord(json) ? json : {}
+    const text = typeof data.text === "string" ? data.text : ""
+    const group = isRecord(data.spans) && Array.isArray(data.spans[key]) ? asList(data.spans[key]) : asList(data.ents)
+    const spans: Span[] = []
+    group.forEach(s => {
+        if (!isRecord(s)) return
+        const span = readSpan(s.start, s.end, s.label)
+        if (!span) return
+        if (typeof s.kb_id === "string" && s.kb_id) span.kb_id = s.kb_id
+        spans.push(span)
+    })
+    const rawTokens = asList(data.tokens).filter(
+        (t): t is { start: number; end: number } => isRecord(t) && isNumber(t.start) && isNumber(t.end)
+    )
+    const tokens: Token[] = rawTokens.map((t, i) => ({
+        text: text.slice(t.start, t.end),
+        start: t.start,
+        end: t.end,
+        ws: i + 1 < rawTokens.length && rawTokens[i + 1].start > t.end,
+    }))
+    return tokens.length ? { text, spans, tokens } : { text, spans }
+}
+
+/**
+ * Write the subset of `Doc.to_json()` that `Doc.from_json()` needs, with the
+ * spans in the `key` span group. Spans must match token boundaries there,
+ * so misaligned ones are widened and reported.
+ */
+export function toSpacyJson(doc: AnnotatedDoc, key: string = "sc"): { data: object; conflicts: ExportConflict[] } {
+    const tokens = normalizeTokens(doc.tokens && doc.tokens.length ? doc.tokens : whitespaceTokens(doc.text))
+    const { aligned, conflicts } = alignSpans(tokens, doc.spans)
+    const group = aligned
+        .sort((a, b) => a.index - b.index)
+        .map(({ index, token_start, token_end }) => {
+            const span = doc.spans[index]
+            return {
+                start: tokens[token_start].start,
+                end: tokens[token_end - 1].end,
+                label: span.label,
+                ...(span.kb_id ? { kb_id: span.kb_id } : {}),
+            }
+        })
+    return {
+        data: {
+            text: doc.text,
+            tokens: tokens.map((t, id) => ({ id, start: t.start, end: t.end })),
+            spans: { [key]: group },
+        },
+        conflicts,
+    }
+}
+
+/**
+ * Read brat standoff: text-bound annotations (`T`) become spans, relations
+ * (`R`) relations, `AnnotatorNotes` comments and normalizations (`N`) kb_ids.
+ * Discontinuous annotations are read as the range from their first to last fragment.
+ */
+export function fromBrat(text: string, ann: string): AnnotatedDoc {
+    const lines = ann
+        .split(/\r?\n/)
+        .filter(line => line.trim())
+        .map(line => line.split("\t"))
+    const spans: Span[] = []
+    const byId = new Map<string, number>()
+    lines.forEach(([id, body = ""]) => {
+        if (!id.startsWith("T")) return
+        const [label, ...rest] = body.split(" ")
+        const offsets = rest
+            .join(" ")
+            .split(";")
+            .flatMap(fragment => fragment.trim().split(/\s+/).map(Number))
+        byId.set(id, spans.length)
+        spans.push({ start_token: Math.min(...offsets), end_token: Math.max(...offsets), label })
+    })
+
+    const relations: Relation[] = []
+    lines.forEach(([id, body = "", note = ""]) => {
+        const [type, ...args] = body.split(" ")
+        if (id.startsWith("R")) {
+            const arg = (name: string) => byId.get((args.find(a => a.startsWith(`${name}:`)) ?? "").slice(name.length + 1))
+            const head = arg("Arg1")
+            const child = arg("Arg2")
+            if (head !== undefined && child !== undefined) relations.push({ head, child, label: type })
+        } else if (id.startsWith("#") && type === "AnnotatorNotes" && byId.has(args[0])) {
+            spans[byId.get(args[0]) as number].comment = note
+        } else if (id.startsWith("N") && byId.has(args[0]) && args[1]) {
+            spans[byId.get(args[0]) as number].kb_id = args[1]
+        }
+    })
+    return relations.length ? { text, spans, relations } : { text, spans }
+}
+
+/** Write brat standoff (`.ann`); spans crossing line breaks are split into fragments there. */
+export function toBrat(doc: AnnotatedDoc): string {
+    const lines: string[] = []
+    const notes: string[] = []
+    doc.spans.forEach((span, i) => {
+        const fragments: [number, number][] = []
+        const covered = doc.text.slice(span.start_token, span.end_token)
+        let offset = span.start_token
+        covered.split("\n").forEach(part => {
+            if (part) fragments.push([offset, offset + part.length])
+            offset += part.length + 1
+        })
+        const ranges = fragments.map(([s, e]) => `${s} ${e}`).join(";")
+        const fragmentText = fragments.map(([s, e]) => doc.text.slice(s, e)).join(" ")
+        lines.push(`T${i + 1}\t${span.label} ${ranges}\t${fragmentText}`)
+        if (span.comment) notes.push(`#${notes.length + 1}\tAnnotatorNotes T${i + 1}\t${span.comment}`)
+        if (span.kb_id) lines.push(`N${i + 1}\tReference T${i + 1} ${span.kb_id}\t${fragmentText}`)
+    })
+    ;(doc.relations ?? []).forEach((r, i) => {
+        lines.push(`R${i + 1}\t${r.label} Arg1:T${r.head + 1} Arg2:T${r.child + 1}`)
+    })
+    return [...lines, ...notes].map(line => line + "\n").join("")
+}
+
+/** Read a Prodigy task; relations are matched to spans through their `head_span`/`child_span`. */
+export function fromProdigy(record: unknown): AnnotatedDoc {
+    const data = isRecord(record) ? record : {}
+    const text = typeof data.text === "string" ? data.text : ""
+    const spans: Span[] = []
+    asList(data.spans).forEach(s => {
+        if (!isRecord(s)) return
+        const { start, end, label, token_start, token_end, ...rest } = s
+        const span = readSpan(start, end, label)
+        if (span) spans.push({ ...rest, ...span })
+    })
+    const tokens: Token[] = []
+    asList(data.tokens).forEach(t => {
+        if (!isRecord(t) || typeof t.text !== "string" || !isNumber(t.start) || !isNumber(t.end)) return
+        tokens.push({ text: t.text, start: t.start, end: t.end, ws: t.ws === true })
+    })
+    const find = (s: unknown) =>
+        isRecord(s) ? spans.findIndex(x => x.start_token === s.start && x.end_token === s.end && x.label === s.label) : -1
+    const relations: Relation[] = []
+    asList(data.relations).forEach(r => {
+        if (!isRecord(r) || typeof r.label !== "string") return
+        const head = find(r.head_span)
+        const child = find(r.child_span)
+        if (head >= 0 && child >= 0) relations.push({ head, child, label: r.label })
+    })
+    return {
+        text,
+        spans,
+        ...(tokens.length ? { tokens } : {}),
+        ...(relations.length ? { relations } : {}),
+    }
+}
+
+/**
+ * Write a Prodigy task with tokens and token-indexed spans; a relation's
+ * `head`/`child` are the last tokens of its spans.
+ */
+export function toProdigy(doc: AnnotatedDoc): object {
+    const tokens = normalizeTokens(doc.tokens && doc.tokens.length ? doc.tokens : whitespaceTokens(doc.text))
+    const spans = doc.spans.map(span => {
+        const range = snapToTokens(tokens, span.start_token, span.end_token)
+        return {
+            start: span.start_token,
+            end: span.end_token,
+            label: span.label,
+            ...(range ? { token_start: range.token_start, token_end: range.token_end - 1 } : {}),
+        }
+    })
+    const relations = (doc.relations ?? []).map(r => ({
+        head: spans[r.head].token_end,
+        child: spans[r.child].token_end,
+        label: r.label,
+        head_span: spans[r.head],
+        child_span: spans[r.child],
+    }))
+    return {
+        text: doc.text,
+        tokens: tokens.map((t, id) => ({ text: t.text, start: t.start, end: t.end, id, ws: !!t.ws })),
+        spans,
+        ...(relations.length ? { relations } : {}),
+    }
+}
+
+/** Names tying Label Studio results to the labeling config. */
+export interface LabelStudioNames {
+    fromName?: string    // the <Labels> tag
+    toName?: string      // the <Text> tag
+    textKey?: string     // the task data field holding the text
+}
+
+/**
+ * Read a Label Studio task: the first annotation's result, or the first
+ * prediction's (with scores) when the task isn't annotated yet.
+ */
+export function fromLabelStudio(task: unknown, { textKey = "text" }: LabelStudioNames = {}): AnnotatedDoc {
+    const data = isRecord(task) ? task : {}
+    const fields = isRecord(data.data) ? data.data : {}
+    const text = typeof fields[textKey] === "string" ? (fields[textKey] as string) : ""
+    const source = asList(data.annotations)[0] ?? asList(data.predictions)[0]
+    const results = asList(isRecord(source) ? source.result : undefined)
+    const spans: Span[] = []
+    const byId = new Map<unknown, number>()
+    results.forEach(r => {
+        if (!isRecord(r) || r.type === "relation" || !isRecord(r.value)) return
+        const span = readSpan(r.value.start, r.value.end, asList(r.value.labels)[0])
+        if (!span) return
+        if (isNumber(r.score)) span.score = r.score
+        byId.set(r.id, spans.length)
+        spans.push(span)
+    })
+    const relations: Relation[] = []
+    results.forEach(r => {
+        if (!isRecord(r) || r.type !== "relation") return
+        let head = byId.get(r.from_id)
+        let child = byId.get(r.to_id)
+        if (head === undefined || child === undefined) return
+        if (r.direction === "left") [head, child] = [child, head]
+        const [label] = asList(r.labels)
+        relations.push({ head, child, label: typeof label === "string" ? label : "" })
+    })
+    return relations.length ? { text, spans, relations } : { text, spans }
+}
+
+/** Write a Label Studio task with the spans and relations as one annotation. */
+export function toLabelStudio(
+    doc: AnnotatedDoc,
+    { fromName = "label", toName = "text", textKey = "text" }: LabelStudioNames = {}
+): object {
+    const result: object[] = doc.spans.map((span, i) => ({
+        id: `span-${i}`,
+        from_name: fromName,
+        to_name: toName,
+        type: "labels",
+        value: {
+            start: span.start_token,
+            end: span.end_token,
+            text: doc.text.slice(span.start_token, span.end_token),
+            labels: [span.label],
+        },
+    }))
+    ;(doc.relations ?? []).forEach(r => {
+        result.push({
+            type: "relation",
+            from_id: `span-${r.head}`,
+            to_id: `span-${r.child}`,
+            direction: "right",
+            labels: r.label ? [r.label] : [],
+        })
+    })
+    return { data: { [textKey]: doc.text }, annotations: [{ result }] }
+}
+
+/** Parse JSON Lines, skipping blank lines. */
+export function parseJsonl(data: string): unknown[] {
+    return data
+        .split(/\r?\n/)
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line))
+}
+
+export function toJsonl(records: unknown[]): string {
+    return records.map(record => JSON.stringify(record) + "\n").join("")
+}
@@ -0,0 +1,62 @@
+import React from "react"
+import { act, render } from "@testing-library/react"
+import { History, useHistory } from "./history"
+
+/** Render the hook with a limit of three snapshots; `current()` is its latest return value. */
+function setup() {
+    let latest: History<number> = null!
+    function Harness() {
+        latest = useHistory(() => 0, 3)
+        return null
+    }
+    render(<Harness />)
+    const current = () => latest
+    const run = (f: (h: History<number>) => void) => act(() => f(latest))
+    return { current, run }
+}
+
+test("undoes and redoes recorded updates", () => {
+    const { current, run } = setup()
+    run(h => h.set(n => n + 1))
+    run(h => h.set(n => n + 1))
+    expect(current().present).toBe(2)
+
+    run(h => h.undo())
+    expect(current().present).toBe(1)
+    expect(current().canRedo).toBe(true)
+    run(h => h.redo())
+    expect(current().present).toBe(2)
+    expect(current().canRedo).toBe(false)
+
+    // A new update drops the redo stack
+    run(h => h.undo())
+    run(h => h.set(n => n * 10))
+    expect(current().state).toEqual({ past: [0, 1], present: 10, future: [] })
+})
+
+test("keeps transient and unchanged updates out of the history", () => {
+    const { current, run } = setup()
+    run(h => h.set(n => n + 5, false))
+    run(h => h.set(n => n))
+    expect(current().present).toBe(5)
+    expect(current().canUndo).toBe(false)
+})
+
+test("keeps at most `limit` snapshots", () => {
+    const { current, run } = setup()
+    ;[1, 2, 3, 4, 5].forEach(n => run(h => h.set(() => n)))
+    expect(current().state.past).toEqual([2, 3, 4])
+})
+
+test("clears and restores the whole state", () => {
+    const { current, run } = setup()
+    run(h => h.set(() => 1))
+    const saved = current().state
+    run(h => h.clear())
+    expect(current().state).toEqual({ past: [], present: 1, future: [] })
+
+    run(h => h.restore({ ...saved, present: 7 }))
+    expect(current().present).toBe(7)
+    run(h => h.undo())
+    expect(current().present).toBe(0)
+})
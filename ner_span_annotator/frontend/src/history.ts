@@ -0,0 +1,90 @@
+import { useCallback, useState } from "react"
+
+/** Snapshots before (`past`) and after (`future`) the current value. */
+export interface HistoryState<T> {
+    past: T[]
+    present: T
+    future: T[]
+}
+
+export interface History<T> {
+    present: T
+    /** Apply an update; only recorded updates can be undone. */
+    set: (update: (prev: T) => T, record?: boolean) => void
+    undo: () => void
+    redo: () => void
+    /** Drop all undo/redo snapshots, keeping the current value. */
+    clear: () => void
+    /** The whole state, e.g. to save it, and a way to put a saved one back. */
+    state: HistoryState<T>
+    restore: (state: HistoryState<T>) => void
+    canUndo: boolean
+    canRedo: boolean
+}
+
+/**
+ * useState with a bounded undo/redo stack.
+ * Transient updates (e.g. toggling edit mode) pass `record = false` and
+ * change the present value without creating a snapshot.
+ */
+export function useHistory<T>(init: () => T, limit: number = 100): History<T> {
+    const [state, setState] = useState<HistoryState<T>>(() => ({
+        past: [],
+        present: init(),
+        future: [],
+    }))
+
+    const set = useCallback(
+        (update: (prev: T) => T, record: boolean = true) => {
+            setState(h => {
+                const next = update(h.present)
+                if (next === h.present) return h
+                if (!record) return { ...h, present: next }
+                return {
+                    past: [...h.past, h.present].slice(-Math.max(1, limit)),
+                    present: next,
+                    future: [],
+                }
+            })
+        },
+        [limit]
+    )
+
+    const undo = useCallback(() => {
+        setState(h => {
+            if (!h.past.length) return h
+            return {
+                past: h.past.slice(0, -1),
+                present: h.past[h.past.length - 1],
+                future: [h.present, ...h.future],
+            }
+        })
+    }, [])
+
+    const redo = useCallback(() => {
+        setState(h => {
+            if (!h.future.length) return h
+            return {
+                past: [...h.past, h.present],
+                present: h.future[0],
+                future: h.future.slice(1),
+            }
+        })
+    }, [])
+
+    const clear = useCallback(() => {
+        setState(h => (h.past.length || h.future.length ? { past: [], present: h.present, future: [] } : h))
+    }, [])
+
+    return {
+        present: state.present,
+        state,
+        restore: setState,
+        set,
+        undo,
+        redo,
+        clear,
+        canUndo: state.past.length > 0,
+        canRedo: state.future.length > 0,
+    }
+}
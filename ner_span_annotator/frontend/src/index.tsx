@@ -1,10 +1,10 @@
 import React from "react"
 import ReactDOM from "react-dom"
-import NerSpanAnnotator from "./NerSpanAnnotator";
+import StreamlitNerSpanAnnotator from "./StreamlitNerSpanAnnotator";
 
 ReactDOM.render(
   <React.StrictMode>
-    <NerSpanAnnotator />
+    <StreamlitNerSpanAnnotator />
   </React.StrictMode>,
   document.getElementById("root")
 )
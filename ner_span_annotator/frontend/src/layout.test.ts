@@ -0,0 +1,198 @@
+import { LayoutSpan, assembleSegments, assignRenderSlots, compareSpans } from "./layout"
+
+let nextId = 1
+const span = (start_token: number, end_token: number, label = "X"): LayoutSpan => ({
+    span_id: nextId++,
+    start_token,
+    end_token,
+    label,
+})
+
+/** Each segment as [text, ...labels with their slot, `^` for the label bubble, `$` for the end]. */
+const summary = (text: string, spans: LayoutSpan[], cuts?: number[]) =>
+    assembleSegments(text, spans, cuts).map(seg => [
+        seg.text,
+        ...seg.entities.map(e => `${e.label}${e.render_slot}${e.is_start ? "^" : ""}${e.is_end ? "$" : ""}`),
+    ])
+
+describe("compareSpans", () => {
+    test("orders by start, then longer first, then label", () => {
+        const spans = [span(4, 6, "B"), span(0, 2, "A"), span(0, 5, "Z"), span(4, 6, "A")]
+        expect(spans.sort(compareSpans).map(s => `${s.start_token}-${s.end_token}${s.label}`)).toEqual([
+            "0-5Z",
+            "0-2A",
+            "4-6A",
+            "4-6B",
+        ])
+    })
+})
+
+describe("assignRenderSlots", () => {
+    test("puts spans that don't overlap on the first slot", () => {
+        const spans = [span(0, 3), span(3, 6), span(8, 9)]
+        expect(Array.from(assignRenderSlots(spans).values())).toEqual([1, 1, 1])
+    })
+
+    test("stacks a span one slot above the last open span", () => {
+        const spans = [span(0, 10), span(2, 8), span(4, 6), span(7, 9)]
+        expect(Array.from(assignRenderSlots(spans).values())).toEqual([1, 2, 3, 3])
+    })
+
+    test("keeps a gap below a span whose lower neighbour closed", () => {
+        // [0, 3) closes before [5, 7) opens, but [1, 10) still sits on slot 2
+        const spans = [span(0, 3), span(1, 10), span(5, 7)]
+        expect(Array.from(assignRenderSlots(spans).values())).toEqual([1, 2, 3])
+    })
+})
+
+describe("assembleSegments", () => {
+    test("returns the text as one plain segment without spans", () => {
+        expect(summary("Hello world", [])).toEqual([["Hello world"]])
+        expect(assembleSegments("", [])).toEqual([])
+    })
+
+    test("handles a span at the end of the text", () => {
+        expect(summary("Hello world", [span(6, 11, "ORG")])).toEqual([["Hello "], ["world", "ORG1^$"]])
+    })
+
+    test("handles a span over the whole text", () => {
+        expect(summary("Paris", [span(0, 5, "LOC")])).toEqual([["Paris", "LOC1^$"]])
+    })
+
+    test("leaves punctuation next to a span as plain text", () => {
+        expect(summary("Visit Paris, (France).", [span(6, 11, "LOC"), span(14, 20, "LOC")])).toEqual([
+            ["Visit "],
+            ["Paris", "LOC1^$"],
+            [", ("],
+            ["France", "LOC1^$"],
+            [")."],
+        ])
+    })
+
+    test("keeps adjacent spans apart on the same slot", () => {
+        expect(summary("foobar", [span(3, 6, "B"), span(0, 3, "A")])).toEqual([
+            ["foo", "A1^$"],
+            ["bar", "B1^$"],
+        ])
+    })
+
+    test("nests spans, with whitespace inside them left plain", () => {
+        expect(summary("New York City Hall", [span(0, 13, "GPE"), span(0, 18, "FAC")])).toEqual([
+            ["New", "FAC1^", "GPE2^"],
+            [" "],
+            ["York", "FAC1", "GPE2"],
+            [" "],
+            ["City", "FAC1", "GPE2$"],
+            [" "],
+            ["Hall", "FAC1$"],
+        ])
+    })
+
+    test("keeps a gap in the stacking across segments", () => {
+        expect(summary("abcdefghij", [span(0, 3, "A"), span(1, 10, "B"), span(5, 7, "C")])).toEqual([
+            ["a", "A1^"],
+            ["bc", "A1$", "B2^"],
+            ["de", "B2"],
+            ["fg", "B2", "C3^$"],
+            ["hij", "B2$"],
+        ])
+    })
+
+    test("splits spans at line breaks", () => {
+        expect(summary("one\ntwo", [span(0, 7, "X")])).toEqual([["one", "X1^"], ["\n"], ["two", "X1$"]])
+    })
+
+    test("draws nothing for a span over whitespace only", () => {
+        expect(summary("a   b", [span(1, 4, "X")])).toEqual([["a   b"]])
+    })
+
+    test("skips spans that are empty or outside the text", () => {
+        expect(summary("abc", [span(2, 2), span(1, 5), span(-1, 1)])).toEqual([["abc"]])
+    })
+
+    test("cuts plain text at `cuts` only", () => {
+        expect(summary("cat dog cat", [], [4, 7, 0, 11])).toEqual([["cat "], ["dog"], [" cat"]])
+        expect(summary("cat dog", [span(0, 3)], [5])).toEqual([["cat", "X1^$"], [" d"], ["og"]])
+    })
+})
+
+/**
+ * The layout `assembleSegments` replaced: every span checked for every
+ * character. Returns, per character, its spans as `id@slot` in slot order.
+ */
+function perCharacterLayout(text: string, spans: LayoutSpan[]): string[][] {
+    const sorted = [...spans].sort(compareSpans)
+    const slots = new Map<number, number>()
+    const out: string[][] = []
+    for (let i = 0; i < text.length; i++) {
+        const covering: LayoutSpan[] = []
+        for (const s of sorted) {
+            if (s.start_token > i || i >= s.end_token) continue
+            if (i === s.start_token) {
+                const last = covering[covering.length - 1]
+                slots.set(s.span_id, (last ? (slots.get(last.span_id) as number) : 0) + 1)
+            }
+            covering.push(s)
+        }
+        out.push(covering.map(s => `${s.span_id}@${slots.get(s.span_id)}`))
+    }
+    return out
+}
+
+describe("long documents", () => {
+    // About 27k characters with 500 spans of up to 55 characters, many overlapping
+    const text = Array.from({ length: 4000 }, (_, i) => `word${i % 97}`).join(" ")
+    const spans: LayoutSpan[] = []
+    for (let i = 0; i < 500; i++) {
+        const start = (i * 37) % (text.length - 60)
+        spans.push(span(start, start + 5 + (i % 50), `L${i % 7}`))
+    }
+
+    /** Run a layout over copies of the spans that count how often their offsets are read. */
+    const offsetReads = (layout: (text: string, spans: LayoutSpan[]) => unknown) => {
+        let reads = 0
+        const counted = spans.map(s => {
+            const copy = { ...s }
+            ;(["start_token", "end_token"] as const).forEach(key =>
+                Object.defineProperty(copy, key, {
+                    get: () => {
+                        reads++
+                        return s[key]
+                    },
+                })
+            )
+            return copy
+        })
+        layout(text, counted)
+        return reads
+    }
+
+    test("match the per-character layout", () => {
+        const expected = perCharacterLayout(text, spans)
+        const actual: string[][] = text.split("").map(() => [])
+        assembleSegments(text, spans).forEach(seg => {
+            for (let i = seg.start; i < seg.end; i++) {
+                actual[i] = seg.entities.map(e => `${e.span_id}@${e.render_slot}`)
+            }
+        })
+        // Whitespace inside spans is left plain on purpose
+        text.split("").forEach((ch, i) => {
+            if (/\s/.test(ch)) expected[i] = []
+        })
+        expect(actual).toEqual(expected)
+    })
+
+    test("read each span a bounded number of times, covering every character once", () => {
+        expect(text.length).toBeGreaterThan(20000)
+        // The sort reads O(spans · log spans) offsets, the sweep a few per span; the
+        // per-character layout reads every span for every character
+        expect(offsetReads(assembleSegments)).toBeLessThan(100 * spans.length)
+        expect(offsetReads(perCharacterLayout)).toBeGreaterThan(text.length * spans.length)
+
+        const segments = assembleSegments(text, spans)
+        expect(segments.map(s => s.text).join("")).toBe(text)
+        segments.slice(1).forEach((seg, i) => expect(seg.start).toBe(segments[i].end))
+        const starts = segments.flatMap(seg => seg.entities.filter(e => e.is_start).map(e => e.span_id))
+        expect(new Set(starts).size).toBe(starts.length)
+    })
+})
@@ -0,0 +1,145 @@
+/** The fields layout needs from a span. */
+export interface LayoutSpan {
+    span_id: number
+    start_token: number    // inclusive
+    end_token: number      // exclusive
+    label: string
+}
+
+/** A span drawn over a segment, on its stacking slot (1 = closest to the text). */
+export interface SegmentEntity {
+    span_id: number
+    label: string
+    is_start: boolean      // the segment carries this span's label bubble
+    is_end: boolean        // the span's last segment, which carries its end handle
+    render_slot: number
+}
+
+/** A run of characters covered by the same spans; entities are sorted by slot. */
+export interface Segment {
+    start: number
+    end: number
+    text: string
+    entities: SegmentEntity[]
+}
+
+/** Document order: by start, longer spans first, then alphabetical label. */
+export function compareSpans(a: LayoutSpan, b: LayoutSpan): number {
+    const lenA = a.end_token - a.start_token
+    const lenB = b.end_token - b.start_token
+    const startDiff = a.start_token - b.start_token
+    if (startDiff !== 0) return startDiff
+    if (lenB !== lenA) return lenB - lenA
+    // Tiebreak: alphabetical label
+    return a.label.localeCompare(b.label)
+}
+
+/**
+ * Assign each span a `render_slot` so overlapping spans stack:
+ * a span sits one slot above the last (in document order) span still open at its start.
+ */
+export function assignRenderSlots(sorted: LayoutSpan[]): Map<number, number> {
+    const slots = new Map<number, number>()
+    let active: LayoutSpan[] = []
+    for (const span of sorted) {
+        active = active.filter(a => a.end_token > span.start_token)
+        const last = active[active.length - 1]
+        slots.set(span.span_id, last ? (slots.get(last.span_id) ?? 0) + 1 : 1)
+        active.push(span)
+    }
+    return slots
+}
+
+const WHITESPACE_RUN = /\s+/g
+
+/**
+ * Sweep over the sorted span boundaries and cut the text into segments whose
+ * characters share the same set of spans. Whitespace inside spans gets its own
+ * plain segment (spans aren't drawn under it), and adjacent plain text is merged
+ * except across `cuts` (e.g. search match edges, so matches can be highlighted).
+ * Runs in O((chars + spans) · overlap) instead of O(chars · spans).
+ */
+export function assembleSegments(text: string, spans: LayoutSpan[], cuts: number[] = []): Segment[] {
+    const sorted = spans
+        .filter(s => s.start_token >= 0 && s.end_token <= text.length && s.end_token > s.start_token)
+        .sort(compareSpans)
+    const slots = assignRenderSlots(sorted)
+
+    const cutSet = new Set(cuts.filter(c => c > 0 && c < text.length))
+    const boundaries = new Set<number>([0, text.length, ...Array.from(cutSet)])
+    sorted.forEach(s => {
+        boundaries.add(s.start_token)
+        boundaries.add(s.end_token)
+    })
+    const points = Array.from(boundaries).sort((a, b) => a - b)
+
+    const out: Segment[] = []
+    const pushPlain = (start: number, end: number) => {
+        if (end <= start) return
+        const prev = out[out.length - 1]
+        if (prev && !prev.entities.length && prev.end === start && !cutSet.has(start)) {
+            prev.end = end
+            prev.text = text.slice(prev.start, end)
+        } else {
+            out.push({ start, end, text: text.slice(start, end), entities: [] })
+        }
+    }
+
+    const labeled = new Set<number>()   // spans whose label bubble is already placed
+    let active: LayoutSpan[] = []
+    let next = 0
+    for (let p = 0; p < points.length - 1; p++) {
+        const from = points[p]
+        const to = points[p + 1]
+        active = active.filter(s => s.end_token > from)
+        while (next < sorted.length && sorted[next].start_token <= from) {
+            if (sorted[next].end_token > from) active.push(sorted[next])
+            next++
+        }
+        if (!active.length) {
+            pushPlain(from, to)
+            continue
+        }
+
+        const bySlot = [...active].sort((a, b) => (slots.get(a.span_id) ?? 0) - (slots.get(b.span_id) ?? 0))
+        // Split the interval at whitespace runs
+        const piece = text.slice(from, to)
+        let cursor = 0
+        const emit = (start: number, end: number) => {
+            if (end <= start) return
+            out.push({
+                start: from + start,
+                end: from + end,
+                text: piece.slice(start, end),
+                entities: bySlot.map(s => {
+                    const is_start = !labeled.has(s.span_id)
+                    labeled.add(s.span_id)
+                    return {
+                        span_id: s.span_id,
+                        label: s.label,
+                        is_start,
+                        is_end: false,
+                        render_slot: slots.get(s.span_id) ?? 1,
+                    }
+                }),
+            })
+        }
+        WHITESPACE_RUN.lastIndex = 0
+        let m: RegExpExecArray | null
+        while ((m = WHITESPACE_RUN.exec(piece)) !== null) {
+            emit(cursor, m.index)
+            pushPlain(from + m.index, from + m.index + m[0].length)
+            cursor = m.index + m[0].length
+        }
+        emit(cursor, piece.length)
+    }
+
+    const ended = new Set<number>()
+    for (let i = out.length - 1; i >= 0; i--) {
+        out[i].entities.forEach(e => {
+            if (!ended.has(e.span_id)) e.is_end = true
+            ended.add(e.span_id)
+        })
+    }
+    return out
+}
@@ -0,0 +1,45 @@
+/** Entry point of the npm package: the annotator as a plain React component, without Streamlit. */
+export { default as NerSpanAnnotator } from "./NerSpanAnnotator"
+export type { NerSpanAnnotatorProps } from "./NerSpanAnnotator"
+export { default as DocumentQueue } from "./DocumentQueue"
+export type { DocumentQueueProps } from "./DocumentQueue"
+export type {
+    Span,
+    SpanStatus,
+    AgreementStatus,
+    LabelDef,
+    RendererOptions,
+    ValidationPolicy,
+    QueueDocument,
+    SpanConstraints,
+    GazetteerEntry,
+    SpanTemplate,
+} from "./types"
+export { DEFAULT_THEME } from "./theme"
+export type { ThemeVars } from "./theme"
+export type { Relation, RelationSnapshot } from "./relations"
+export type { Token } from "./tokens"
+export type { SyncPolicy } from "./sync"
+export type { AnnotationValue, DocumentsValue, EditEvent, EditEventType } from "./events"
+export type { ValidationIssue } from "./validation"
+export type { ConstraintViolation } from "./constraints"
+export { agreementMetrics, mergeAnnotations } from "./agreement"
+export type { AgreementMetrics, PairAgreement, Score } from "./agreement"
+export {
+    fromBrat,
+    fromConll,
+    fromLabelStudio,
+    fromProdigy,
+    fromSpacyJson,
+    fromTags,
+    parseJsonl,
+    toBrat,
+    toConll,
+    toJsonl,
+    toLabelStudio,
+    toProdigy,
+    toSpacyJson,
+    toTags,
+    whitespaceTokens,
+} from "./formats"
+export type { AnnotatedDoc, ExportConflict, LabelStudioNames, TagScheme } from "./formats"
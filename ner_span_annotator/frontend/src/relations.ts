@@ -0,0 +1,15 @@
+import { Span } from "./types"
+
+/** A directed, labeled link between two spans; `head` and `child` index into the `spans` list. */
+export interface Relation {
+    head: number
+    child: number
+    label: string
+}
+
+/** A relation with both ends spelled out as spans, for edit events where list indices would shift. */
+export interface RelationSnapshot {
+    label: string
+    head_span: Span
+    child_span: Span
+}
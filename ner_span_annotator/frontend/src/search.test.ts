@@ -0,0 +1,64 @@
+import { findMatches, isWordChar, suggestSpans } from "./search"
+import { Token } from "./tokens"
+
+const text = "Paris, paris and Parisians. PARIS!"
+
+test("isWordChar counts letters of any script, combining marks, digits and underscores", () => {
+    expect(["a", "É", "ж", "ω", "ש", "ع", "北", "ก", "\u0301", "٣", "7", "_"].every(isWordChar)).toBe(true)
+    expect([" ", ",", "-", "'", undefined].some(isWordChar)).toBe(false)
+})
+
+describe("findMatches", () => {
+    test("matches case-insensitively by default", () => {
+        expect(findMatches(text, { pattern: "paris" })).toEqual([
+            [0, 5],
+            [7, 12],
+            [17, 22],
+            [28, 33],
+        ])
+        expect(findMatches(text, { pattern: "paris", case_sensitive: true })).toEqual([[7, 12]])
+    })
+
+    test("skips matches inside words when asked", () => {
+        expect(findMatches(text, { pattern: "paris", whole_word: true })).toHaveLength(3)
+        expect(findMatches("שלוםעולם עולם", { pattern: "עולם", whole_word: true })).toEqual([[9, 13]])
+        expect(findMatches("مرحباعالم", { pattern: "عالم", whole_word: true })).toEqual([])
+    })
+
+    test("escapes plain patterns and supports regexes", () => {
+        expect(findMatches("a.b axb", { pattern: "a.b" })).toEqual([[0, 3]])
+        expect(findMatches("a.b axb", { pattern: "a.b", regex: true })).toEqual([
+            [0, 3],
+            [4, 7],
+        ])
+        expect(findMatches("abc", { pattern: "x*", regex: true })).toEqual([])
+        expect(() => findMatches("abc", { pattern: "(", regex: true })).toThrow(SyntaxError)
+    })
+
+    test("keeps only whole tokens with tokens", () => {
+        const tokens: Token[] = [
+            { text: "Paris", start: 0, end: 5 },
+            { text: ",", start: 5, end: 6 },
+            { text: "paris", start: 7, end: 12 },
+        ]
+        expect(findMatches(text.slice(0, 12), { pattern: "aris" }, tokens)).toEqual([])
+        expect(findMatches(text.slice(0, 12), { pattern: "paris" }, tokens)).toEqual([
+            [0, 5],
+            [7, 12],
+        ])
+    })
+})
+
+test("suggestSpans proposes every new gazetteer match once", () => {
+    const existing = [{ start_token: 0, end_token: 5, label: "LOC" }]
+    const gazetteer = [
+        { pattern: "Paris", label: "LOC" },
+        { pattern: "Paris", label: "LOC" },
+        { pattern: "pari\\w+", label: "MISC", regex: true, case_sensitive: true, whole_word: false },
+    ]
+    expect(suggestSpans(text, gazetteer, null, existing)).toEqual([
+        { start_token: 7, end_token: 12, label: "LOC", source: "gazetteer" },
+        { start_token: 28, end_token: 33, label: "LOC", source: "gazetteer" },
+        { start_token: 7, end_token: 12, label: "MISC", source: "gazetteer" },
+    ])
+})
@@ -0,0 +1,70 @@
+import { GazetteerEntry, Span } from "./types"
+import { Token } from "./tokens"
+
+/** A string or regex to look for in the text. */
+export interface SearchQuery {
+    pattern: string
+    regex?: boolean
+    case_sensitive?: boolean
+    whole_word?: boolean    // matches may not start or end inside a word
+}
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// Letters of any script (with their combining marks), digits and underscores
+export const isWordChar = (c: string | undefined) => c !== undefined && /[\p{L}\p{M}\p{N}_]/u.test(c)
+
+/** The query as a global RegExp; throws a SyntaxError for an invalid regex. */
+export function compileQuery(query: SearchQuery): RegExp {
+    const source = query.regex ? query.pattern : escapeRegex(query.pattern)
+    return new RegExp(source, query.case_sensitive ? "g" : "gi")
+}
+
+/**
+ * Non-empty, non-overlapping [start, end) ranges matching the query. With
+ * `tokens`, only matches covering whole tokens count, so they can become spans.
+ */
+export function findMatches(text: string, query: SearchQuery, tokens: Token[] | null = null): [number, number][] {
+    if (!query.pattern) return []
+    const re = compileQuery(query)
+    const starts = tokens && new Set(tokens.map(t => t.start))
+    const ends = tokens && new Set(tokens.map(t => t.end))
+    const out: [number, number][] = []
+    let m: RegExpExecArray | null
+    while ((m = re.exec(text)) !== null) {
+        if (!m[0].length) {
+            re.lastIndex++
+            continue
+        }
+        const start = m.index
+        const end = start + m[0].length
+        if (query.whole_word && (isWordChar(text[start - 1]) || isWordChar(text[end]))) continue
+        if (starts && ends && !(starts.has(start) && ends.has(end))) continue
+        out.push([start, end])
+    }
+    return out
+}
+
+/**
+ * Spans for every gazetteer match (whole words unless the entry says otherwise),
+ * skipping those identical to a span in `existing` or to an earlier suggestion.
+ */
+export function suggestSpans(
+    text: string,
+    gazetteer: GazetteerEntry[],
+    tokens: Token[] | null,
+    existing: Span[]
+): Span[] {
+    const out: Span[] = []
+    const known = new Set(existing.map(s => `${s.start_token}:${s.end_token}:${s.label}`))
+    gazetteer.forEach(entry => {
+        const query = { whole_word: true, ...entry }
+        findMatches(text, query, tokens).forEach(([start, end]) => {
+            const key = `${start}:${end}:${entry.label}`
+            if (known.has(key)) return
+            known.add(key)
+            out.push({ start_token: start, end_token: end, label: entry.label, source: "gazetteer" })
+        })
+    })
+    return out
+}
@@ -0,0 +1,137 @@
+import { adjustSelection, resolveRange, segmentTexts, wordAt } from "./selection"
+import { graphemeBoundaries } from "./unicode"
+import { Token } from "./tokens"
+
+// "Hello world\nagain" as rendered: plain text, a span with its label bubble, a line break
+const container = document.createElement("div")
+container.innerHTML =
+    '<span data-seg-start="0">Hello </span>' +
+    '<span class="entity"><span data-seg-start="6">world<span class="span-label">ORG<button>x</button></span></span></span>' +
+    '<span data-seg-start="11">\n</span>' +
+    '<span data-seg-start="12">again</span>'
+document.body.appendChild(container)
+
+const seg = (start: number) => container.querySelector(`[data-seg-start="${start}"]`) as Element
+const textOf = (start: number) => seg(start).firstChild as Text
+const label = container.querySelector(".span-label") as Element
+
+const range = (startNode: Node, startOffset: number, endNode: Node, endOffset: number) => {
+    const r = document.createRange()
+    r.setStart(startNode, startOffset)
+    r.setEnd(endNode, endOffset)
+    return r
+}
+
+test("segmentTexts lists every segment with its text node", () => {
+    expect(segmentTexts(container).map(s => [s.start, s.end])).toEqual([
+        [0, 6],
+        [6, 11],
+        [11, 12],
+        [12, 17],
+    ])
+})
+
+describe("resolveRange", () => {
+    test("maps offsets inside text nodes", () => {
+        expect(resolveRange(container, range(textOf(0), 2, textOf(6), 3))).toEqual([2, 9])
+        expect(resolveRange(container, range(textOf(6), 0, textOf(12), 5))).toEqual([6, 17])
+    })
+
+    test("takes in the whole segment when an end is on its label bubble", () => {
+        expect(resolveRange(container, range(textOf(0), 0, label.firstChild as Node, 1))).toEqual([0, 11])
+        expect(resolveRange(container, range(label, 0, textOf(12), 2))).toEqual([6, 14])
+    })
+
+    test("maps points between elements to the nearest segment edge", () => {
+        // Before the span's wrapper to after it
+        expect(resolveRange(container, range(container, 1, container, 2))).toEqual([6, 11])
+        expect(resolveRange(container, range(container, 0, container, container.childNodes.length))).toEqual([0, 17])
+    })
+
+    test("clips a selection reaching outside the text", () => {
+        expect(resolveRange(container, range(document.body, 0, textOf(6), 5))).toEqual([0, 11])
+    })
+
+    test("returns null for empty selections and selections elsewhere", () => {
+        expect(resolveRange(container, range(textOf(6), 2, textOf(6), 2))).toBeNull()
+        const other = document.createElement("p")
+        other.textContent = "outside"
+        document.body.appendChild(other)
+        expect(resolveRange(container, range(other.firstChild as Node, 0, other.firstChild as Node, 3))).toBeNull()
+        other.remove()
+    })
+})
+
+describe("wordAt", () => {
+    const text = "Hello, world_2 42!"
+
+    test("finds the word around an offset", () => {
+        expect(wordAt(text, 9, null)).toEqual([7, 14])
+        expect(wordAt(text, 0, null)).toEqual([0, 5])
+        expect(wordAt(text, 15, null)).toEqual([15, 17])
+    })
+
+    test("takes the word just before an offset at its end", () => {
+        expect(wordAt(text, 5, null)).toEqual([0, 5])
+        expect(wordAt(text, 17, null)).toEqual([15, 17])
+    })
+
+    test("returns null on whitespace and punctuation", () => {
+        expect(wordAt(text, 6, null)).toBeNull()
+        expect(wordAt("a -- b", 3, null)).toBeNull()
+    })
+
+    test("finds words of any script, with their combining marks", () => {
+        expect(wordAt("שלום עולם", 1, null)).toEqual([0, 4])
+        expect(wordAt("שלום עולם", 9, null)).toEqual([5, 9])
+        expect(wordAt("مَرحَبا بكم", 2, null)).toEqual([0, 7])
+        expect(wordAt("北京大学", 1, null)).toEqual([0, 4])
+        expect(wordAt("cafe\u0301 au lait", 4, null)).toEqual([0, 5])
+    })
+
+    test("uses tokens when given", () => {
+        const tokens: Token[] = [
+            { text: "Hello", start: 0, end: 5 },
+            { text: ",", start: 5, end: 6 },
+        ]
+        expect(wordAt(text, 5, tokens)).toEqual([5, 6])
+        expect(wordAt(text, 6, tokens)).toEqual([5, 6])
+        expect(wordAt(text, 9, tokens)).toBeNull()
+    })
+})
+
+describe("adjustSelection", () => {
+    test("widens a range to whole characters", () => {
+        const text = "a\u{1F44D}\u{1F3FD}b"
+        expect(adjustSelection(text, [2, 4], graphemeBoundaries(text), undefined, null)).toEqual([1, 5])
+    })
+
+    test("keeps emoji sequences and letters with their marks whole", () => {
+        const family = "\u{1F468}\u200D\u{1F469}\u200D\u{1F467}"
+        const text = `${family} cafe\u0301`
+        const bounds = graphemeBoundaries(text)
+        // Starting inside the second person, ending between "e" and its accent
+        expect(adjustSelection(text, [3, 8], bounds, undefined, null)).toEqual([0, 8])
+        expect(adjustSelection(text, [9, 13], bounds, undefined, null)).toEqual([9, 14])
+    })
+
+    test("trims per the trim constraint", () => {
+        const text = " (Paris), "
+        expect(adjustSelection(text, [0, 10], graphemeBoundaries(text), "whitespace", null)).toEqual([1, 9])
+        expect(adjustSelection(text, [0, 10], graphemeBoundaries(text), "punctuation", null)).toEqual([2, 7])
+        expect(adjustSelection(text, [7, 10], graphemeBoundaries(text), "punctuation", null)).toBeNull()
+    })
+
+    test("snaps to tokens after trimming", () => {
+        const text = "New York's"
+        const tokens: Token[] = [
+            { text: "New", start: 0, end: 3 },
+            { text: "York", start: 4, end: 8 },
+            { text: "'s", start: 8, end: 10 },
+        ]
+        expect(adjustSelection(text, [2, 6], graphemeBoundaries(text), undefined, tokens)).toEqual([0, 8])
+        expect(adjustSelection(text, [3, 4], graphemeBoundaries(text), undefined, tokens)).toBeNull()
+        // A double-clicked word that ends inside a token takes the whole token
+        expect(adjustSelection(text, [4, 9], graphemeBoundaries(text), undefined, tokens)).toEqual([4, 10])
+    })
+})
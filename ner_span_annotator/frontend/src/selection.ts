@@ -0,0 +1,118 @@
+import { isWordChar } from "./search"
+import { Token, snapToTokens } from "./tokens"
+import { trimRange } from "./constraints"
+import { SpanConstraints } from "./types"
+import { ceilGrapheme, floorGrapheme } from "./unicode"
+
+/** A segment element (`data-seg-start`) with its text node, in document order. */
+export interface SegmentText {
+    start: number
+    end: number
+    element: Element
+    node: Text
+}
+
+/** The rendered text segments inside `container`, skipping any without a leading text node. */
+export function segmentTexts(container: Element): SegmentText[] {
+    const out: SegmentText[] = []
+    container.querySelectorAll("[data-seg-start]").forEach(element => {
+        const node = element.firstChild
+        if (!node || node.nodeType !== Node.TEXT_NODE) return
+        const start = parseInt(element.getAttribute("data-seg-start") ?? "", 10)
+        if (Number.isNaN(start)) return
+        out.push({ start, end: start + (node.textContent ?? "").length, element, node: node as Text })
+    })
+    return out
+}
+
+/** True when the boundary point (node, offset) lies before the start of `target`. */
+function isBefore(node: Node, offset: number, target: Node): boolean {
+    const point = document.createRange()
+    point.setStart(node, offset)
+    return point.comparePoint(target, 0) > 0
+}
+
+/**
+ * Resolve one end of a DOM selection to a text offset:
+ * - inside a segment's text node: the segment start plus the offset;
+ * - elsewhere inside a segment (its label bubble, a button): the segment's start
+ *   or end, so a selection touching a bubble includes that segment;
+ * - anywhere else (whitespace between elements, line breaks, outside the text):
+ *   the nearest segment edge in document order, after the point for a start and
+ *   before it for an end.
+ */
+export function resolveBoundary(
+    segments: SegmentText[],
+    node: Node,
+    offset: number,
+    side: "start" | "end"
+): number | null {
+    if (!segments.length) return null
+    const direct = segments.find(s => s.node === node)
+    if (direct) return direct.start + Math.min(offset, direct.end - direct.start)
+
+    const element = node.nodeType === Node.ELEMENT_NODE ? (node as Element) : node.parentElement
+    const owner = segments.find(s => s.element === element || s.element.contains(element))
+    if (owner) return side === "start" ? owner.start : owner.end
+
+    // Binary search for the first segment after the point
+    let lo = 0
+    let hi = segments.length
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1
+        if (isBefore(node, offset, segments[mid].node)) hi = mid
+        else lo = mid + 1
+    }
+    if (side === "start") return lo < segments.length ? segments[lo].start : null
+    return lo > 0 ? segments[lo - 1].end : null
+}
+
+/**
+ * The [start, end) text range covered by a DOM range, clipped to the text
+ * rendered in `container`; null when the range misses the text or is empty.
+ */
+export function resolveRange(container: Element, range: Range): [number, number] | null {
+    if (range.collapsed || !range.intersectsNode(container)) return null
+    const segments = segmentTexts(container)
+    const start = resolveBoundary(segments, range.startContainer, range.startOffset, "start")
+    const end = resolveBoundary(segments, range.endContainer, range.endOffset, "end")
+    if (start === null || end === null || end <= start) return null
+    return [start, end]
+}
+
+/** The word (or, with tokens, the token) at a text offset; null on whitespace or punctuation. */
+export function wordAt(text: string, offset: number, tokens: Token[] | null): [number, number] | null {
+    if (tokens) {
+        const token = tokens.find(t => t.start <= offset && offset < t.end) ?? tokens.find(t => t.end === offset)
+        return token ? [token.start, token.end] : null
+    }
+    // A click just after a word's last character still means that word
+    const at = isWordChar(text[offset]) ? offset : isWordChar(text[offset - 1]) ? offset - 1 : -1
+    if (at < 0) return null
+    let start = at
+    let end = at + 1
+    while (start > 0 && isWordChar(text[start - 1])) start--
+    while (end < text.length && isWordChar(text[end])) end++
+    return [start, end]
+}
+
+/**
+ * A raw selected range as a new span's extent: widened to whole characters
+ * (`graphemes`), trimmed per `trim` and, in token mode, widened to the tokens
+ * it touches. Null when nothing is left.
+ */
+export function adjustSelection(
+    text: string,
+    [rawStart, rawEnd]: [number, number],
+    graphemes: number[],
+    trim: SpanConstraints["trim"],
+    tokens: Token[] | null
+): [number, number] | null {
+    const start = floorGrapheme(graphemes, rawStart)
+    const end = ceilGrapheme(graphemes, rawEnd)
+    if (end <= start || end > text.length) return null
+    const trimmed = trimRange(text, start, end, trim)
+    if (!trimmed || !tokens) return trimmed
+    const snapped = snapToTokens(tokens, trimmed[0], trimmed[1])
+    return snapped && [snapped.start, snapped.end]
+}
@@ -0,0 +1,22 @@
+import "@testing-library/jest-dom"
+
+// Layout APIs jsdom doesn't implement; in tests everything measures as zero
+Element.prototype.scrollIntoView = function () {}
+if (!Range.prototype.getBoundingClientRect) {
+    Range.prototype.getBoundingClientRect = () => document.body.getBoundingClientRect()
+}
+
+// Nor pointer events, which selections are read on
+if (typeof window.PointerEvent === "undefined") {
+    class PointerEvent extends MouseEvent {
+        pointerType: string
+        constructor(type: string, init: PointerEventInit = {}) {
+            super(type, init)
+            this.pointerType = init.pointerType ?? "mouse"
+        }
+    }
+    window.PointerEvent = PointerEvent as typeof window.PointerEvent
+}
+
+// Drafts are saved in localStorage; every test starts without any
+afterEach(() => window.localStorage.clear())
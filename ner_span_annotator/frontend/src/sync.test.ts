@@ -0,0 +1,69 @@
+import { isSmallEdit, remapOffsets, remapSpans, spanKey, textEdit } from "./sync"
+import { Token } from "./tokens"
+
+test("textEdit finds the changed region", () => {
+    expect(textEdit("Hello world", "Hello big world")).toEqual({ start: 6, oldEnd: 6, newEnd: 10 })
+    expect(textEdit("Hello world", "Hello")).toEqual({ start: 5, oldEnd: 11, newEnd: 5 })
+    expect(textEdit("aaa", "aaaa")).toEqual({ start: 3, oldEnd: 3, newEnd: 4 })
+})
+
+test("isSmallEdit allows 20 characters or a fifth of the text", () => {
+    const text = "x".repeat(200)
+    expect(isSmallEdit({ start: 0, oldEnd: 40, newEnd: 0 }, text)).toBe(true)
+    expect(isSmallEdit({ start: 0, oldEnd: 41, newEnd: 0 }, text)).toBe(false)
+    expect(isSmallEdit({ start: 0, oldEnd: 0, newEnd: 20 }, "short")).toBe(true)
+})
+
+describe("remapOffsets", () => {
+    const insertion = { start: 6, oldEnd: 6, newEnd: 10 }
+
+    test("keeps spans before the edit and shifts spans after it", () => {
+        expect(remapOffsets(0, 5, insertion)).toEqual([0, 5])
+        expect(remapOffsets(6, 11, insertion)).toEqual([10, 15])
+    })
+
+    test("grows or shrinks a span around the edit", () => {
+        expect(remapOffsets(0, 11, insertion)).toEqual([0, 15])
+        expect(remapOffsets(0, 11, { start: 3, oldEnd: 5, newEnd: 3 })).toEqual([0, 9])
+    })
+
+    test("drops spans the edit cuts into or empties", () => {
+        expect(remapOffsets(4, 8, { start: 6, oldEnd: 10, newEnd: 7 })).toBeNull()
+        expect(remapOffsets(6, 8, { start: 5, oldEnd: 9, newEnd: 5 })).toBeNull()
+    })
+})
+
+describe("remapSpans", () => {
+    const spans = [
+        { start_token: 0, end_token: 5, label: "A" },
+        { start_token: 6, end_token: 11, label: "B" },
+    ]
+
+    test("moves spans along a small edit", () => {
+        expect(remapSpans(spans, "Hello world", "Hello big world", null)).toEqual({
+            spans: [spans[0], { start_token: 10, end_token: 15, label: "B" }],
+            dropped: 0,
+        })
+    })
+
+    test("counts the spans it had to drop", () => {
+        expect(remapSpans(spans, "Hello world", "Hellworld", null)).toEqual({
+            spans: [{ start_token: 4, end_token: 9, label: "B" }],
+            dropped: 1,
+        })
+    })
+
+    test("re-snaps moved spans to tokens", () => {
+        const tokens: Token[] = [
+            { text: "Hello", start: 0, end: 5 },
+            { text: "big", start: 6, end: 9 },
+            { text: "world", start: 10, end: 15 },
+        ]
+        const result = remapSpans(spans, "Hello world", "Hello big world", tokens)
+        expect(result?.spans.map(spanKey)).toEqual(["0:5:A", "10:15:B"])
+    })
+
+    test("gives up on a different text", () => {
+        expect(remapSpans(spans, "Hello world", "Something else entirely, and much longer", null)).toBeNull()
+    })
+})
@@ -0,0 +1,79 @@
+import { Token, snapToTokens } from "./tokens"
+
+/** How local edits meet new `text`/`spans` arguments (`options.sync`). */
+export type SyncPolicy = "reset" | "merge" | "keep_local"
+
+/** The one region where two texts differ: [start, oldEnd) became [start, newEnd). */
+export interface TextEdit {
+    start: number
+    oldEnd: number
+    newEnd: number
+}
+
+// Larger rewrites count as a different document rather than an edit
+const MAX_EDIT_SHARE = 0.2
+const MIN_EDIT_LIMIT = 20
+
+/** The changed region between two texts, from their common prefix and suffix. */
+export function textEdit(before: string, after: string): TextEdit {
+    let start = 0
+    const shorter = Math.min(before.length, after.length)
+    while (start < shorter && before[start] === after[start]) start++
+    let suffix = 0
+    while (suffix < shorter - start && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++
+    return { start, oldEnd: before.length - suffix, newEnd: after.length - suffix }
+}
+
+/** True when `edit` is small enough for spans to follow it. */
+export function isSmallEdit(edit: TextEdit, before: string): boolean {
+    const changed = Math.max(edit.oldEnd - edit.start, edit.newEnd - edit.start)
+    return changed <= Math.max(MIN_EDIT_LIMIT, before.length * MAX_EDIT_SHARE)
+}
+
+/**
+ * A span's offsets after `edit`: text before the edit stays put, text after it
+ * shifts, and a span around the edit grows or shrinks with it. Null when the
+ * edit cuts through one of its edges or leaves it empty.
+ */
+export function remapOffsets(start: number, end: number, edit: TextEdit): [number, number] | null {
+    const delta = edit.newEnd - edit.oldEnd
+    if (end <= edit.start) return [start, end]
+    if (start >= edit.oldEnd) return [start + delta, end + delta]
+    // An insertion right at an edge stays outside the span
+    if (edit.start === edit.oldEnd && start === edit.start) return [start + delta, end + delta]
+    if (start < edit.start && end >= edit.oldEnd && end + delta > start) return [start, end + delta]
+    return null
+}
+
+/**
+ * Spans moved along a small edit between `before` and `after` (re-snapped to
+ * `tokens` if any); `dropped` counts those that couldn't follow. Null when the
+ * texts differ too much to remap anything.
+ */
+export function remapSpans<T extends { start_token: number; end_token: number }>(
+    spans: T[],
+    before: string,
+    after: string,
+    tokens: Token[] | null
+): { spans: T[]; dropped: number } | null {
+    if (before === after) return { spans, dropped: 0 }
+    const edit = textEdit(before, after)
+    if (!isSmallEdit(edit, before)) return null
+    const out: T[] = []
+    spans.forEach(span => {
+        const moved = remapOffsets(span.start_token, span.end_token, edit)
+        const snapped = moved && tokens ? snapToTokens(tokens, moved[0], moved[1]) : null
+        const range = tokens ? snapped && [snapped.start, snapped.end] : moved
+        if (!range) return
+        out.push(
+            range[0] === span.start_token && range[1] === span.end_token
+                ? span
+                : { ...span, start_token: range[0], end_token: range[1] }
+        )
+    })
+    return { spans: out, dropped: spans.length - out.length }
+}
+
+/** Identity of a span across loads: offsets and label. */
+export const spanKey = (s: { start_token: number; end_token: number; label: string }) =>
+    `${s.start_token}:${s.end_token}:${s.label}`
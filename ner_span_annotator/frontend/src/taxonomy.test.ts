@@ -0,0 +1,46 @@
+import { DEFAULT_COLORS, distinctColor, hashColor, labelColors, searchTaxonomy, taxonomyOrder } from "./taxonomy"
+import { LabelDef } from "./types"
+
+const defs: LabelDef[] = [
+    { name: "LOC" },
+    { name: "City", parent: "LOC", description: "a town" },
+    { name: "PER", color: "#123456" },
+    { name: "Capital", parent: "City" },
+    { name: "Country", parent: "LOC" },
+]
+
+test("labelColors prefers overrides, then the label's color, then displaCy's", () => {
+    const colors = labelColors(defs, { city: "#abcdef" })
+    expect(colors.LOC).toBe(DEFAULT_COLORS.LOC)
+    expect(colors.PER).toBe("#123456")
+    expect(colors.CITY).toBe("#abcdef")
+    expect(colors.CAPITAL).toBe(distinctColor(1))
+    expect(colors.COUNTRY).toBe(distinctColor(2))
+})
+
+test("generated colors are stable and distinct", () => {
+    expect(hashColor("SKILL")).toBe(hashColor("SKILL"))
+    expect(hashColor("SKILL")).not.toBe(hashColor("TOOL"))
+    expect(new Set([0, 1, 2, 3, 4].map(distinctColor)).size).toBe(5)
+    expect(distinctColor(0)).toMatch(/^#[0-9a-f]{6}$/)
+})
+
+test("taxonomyOrder lists children under their parent", () => {
+    expect(taxonomyOrder(defs).map(n => `${n.depth}:${n.def.name}`)).toEqual([
+        "0:LOC",
+        "1:City",
+        "2:Capital",
+        "1:Country",
+        "0:PER",
+    ])
+})
+
+test("searchTaxonomy keeps matches with their ancestors and descendants", () => {
+    const nodes = taxonomyOrder(defs)
+    const names = (query: string) => searchTaxonomy(nodes, query).map(n => n.def.name)
+    expect(names("capital")).toEqual(["LOC", "City", "Capital"])
+    expect(names("town")).toEqual(["LOC", "City", "Capital"])
+    expect(names("loc")).toEqual(["LOC", "City", "Capital", "Country"])
+    expect(names("  ")).toHaveLength(5)
+    expect(names("xyz")).toEqual([])
+})
@@ -0,0 +1,110 @@
+import { LabelDef } from "./types"
+
+/** displaCy's entity colors; label and option colors take precedence. */
+export const DEFAULT_COLORS: Record<string, string> = {
+    ORG: "#7aecec",
+    PRODUCT: "#bfeeb7",
+    GPE: "#feca74",
+    LOC: "#ff9561",
+    PERSON: "#aa9cfc",
+    NORP: "#c887fb",
+    FAC: "#9cc9cc",
+    EVENT: "#ffeb80",
+    LAW: "#ff8197",
+    LANGUAGE: "#ff8197",
+    WORK_OF_ART: "#f0d0ff",
+    DATE: "#bfe1d9",
+    TIME: "#bfe1d9",
+    MONEY: "#e4e7d2",
+    QUANTITY: "#e4e7d2",
+    ORDINAL: "#e4e7d2",
+    CARDINAL: "#e4e7d2",
+    PERCENT: "#e4e7d2",
+}
+
+function hslToHex(h: number, s: number, l: number): string {
+    const a = s * Math.min(l, 1 - l)
+    const channel = (n: number) => {
+        const k = (n + h / 30) % 12
+        const c = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+        return Math.round(255 * c)
+            .toString(16)
+            .padStart(2, "0")
+    }
+    return `#${channel(0)}${channel(8)}${channel(4)}`
+}
+
+/** The n-th of a sequence of pastel colors; golden-angle hue steps keep neighbors far apart. */
+export function distinctColor(n: number): string {
+    return hslToHex((200 + n * 137.508) % 360, 0.7, 0.78)
+}
+
+/** A stable color for a label outside the taxonomy, derived from its name. */
+export function hashColor(label: string): string {
+    let hash = 0
+    for (let i = 0; i < label.length; i++) hash = (hash * 31 + label.charCodeAt(i)) | 0
+    return distinctColor(Math.abs(hash) % 360)
+}
+
+/**
+ * A color for every label, keyed by upper-cased name: `options.colors` first,
+ * then the label's own `color`, then displaCy's defaults; the remaining
+ * labels get generated colors, distinct from each other.
+ */
+export function labelColors(defs: LabelDef[], overrides: Record<string, string> = {}): Record<string, string> {
+    const colors = { ...DEFAULT_COLORS }
+    let generated = 0
+    defs.forEach(def => {
+        const key = def.name.toUpperCase()
+        if (def.color) colors[key] = def.color
+        else if (!colors[key]) colors[key] = distinctColor(generated++)
+    })
+    Object.entries(overrides).forEach(([label, color]) => (colors[label.toUpperCase()] = color))
+    return colors
+}
+
+export interface LabelNode {
+    def: LabelDef
+    depth: number    // 0 for top-level labels
+}
+
+/** Labels in display order: every label followed by its children, otherwise in input order. */
+export function taxonomyOrder(defs: LabelDef[]): LabelNode[] {
+    const children = new Map<string | undefined, LabelDef[]>()
+    defs.forEach(def => children.set(def.parent, [...(children.get(def.parent) ?? []), def]))
+    const out: LabelNode[] = []
+    const visit = (parent: string | undefined, depth: number) =>
+        (children.get(parent) ?? []).forEach(def => {
+            out.push({ def, depth })
+            visit(def.name, depth + 1)
+        })
+    visit(undefined, 0)
+    return out
+}
+
+/**
+ * The labels to list for a search: those whose name or description contains
+ * `query`, with their ancestors (for context) and descendants (a matching
+ * group shows all its members).
+ */
+export function searchTaxonomy(nodes: LabelNode[], query: string): LabelNode[] {
+    const q = query.trim().toLowerCase()
+    if (!q) return nodes
+    const byName = new Map(nodes.map(n => [n.def.name, n.def] as [string, LabelDef]))
+    const ancestors = (def: LabelDef) => {
+        const out: string[] = []
+        for (let p = def.parent; p !== undefined; p = byName.get(p)?.parent) out.push(p)
+        return out
+    }
+    const hits = nodes
+        .map(n => n.def)
+        .filter(def => def.name.toLowerCase().includes(q) || (def.description ?? "").toLowerCase().includes(q))
+        .map(def => def.name)
+    const shown = new Set(hits)
+    nodes.forEach(({ def }) => {
+        const chain = ancestors(def)
+        if (hits.includes(def.name)) chain.forEach(name => shown.add(name))
+        if (chain.some(name => hits.includes(name))) shown.add(def.name)
+    })
+    return nodes.filter(n => shown.has(n.def.name))
+}
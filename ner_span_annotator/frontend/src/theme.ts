@@ -0,0 +1,94 @@
+import React from "react"
+
+/** Colors and fonts of the component, applied as `--nsa-*` CSS custom properties. */
+export interface ThemeVars {
+    text: string
+    background: string
+    surface: string           // popups: the label picker, relation labels
+    subtle: string            // key caps, hovered options
+    border: string
+    muted: string             // secondary text, relation arcs
+    primary: string           // focus rings, active toggles, selected arcs
+    success: string           // accept, approve and submit buttons
+    danger: string            // remove buttons, constraint violations
+    warning: string           // unsubmitted edits, label mismatches, the head of a relation being drawn
+    button: string            // other buttons
+    button_text: string
+    label_text: string        // text on the colored label bubbles
+    highlight: string         // search matches
+    warning_bg: string        // the input problems panel
+    warning_border: string
+    font: string
+    font_size: string
+}
+
+/** The look without a theme: inherits text and font from the page, like plain displaCy markup. */
+export const DEFAULT_THEME: ThemeVars = {
+    text: "inherit",
+    background: "transparent",
+    surface: "white",
+    subtle: "#f3f3f3",
+    border: "#ccc",
+    muted: "#555",
+    primary: "#1e88e5",
+    success: "#008000",
+    danger: "#EE0000",
+    warning: "#e07000",
+    button: "#333333",
+    button_text: "white",
+    label_text: "#000",
+    highlight: "#fff59d",
+    warning_bg: "#fff4e5",
+    warning_border: "#f0b849",
+    font: "inherit",
+    font_size: "inherit",
+}
+
+const cssName = (name: keyof ThemeVars) => `--nsa-${name.replace(/_/g, "-")}`
+
+/** A theme value as `var(--nsa-…, default)`, so a theme set on any ancestor element applies too. */
+export const themeVar = (name: keyof ThemeVars) => `var(${cssName(name)}, ${DEFAULT_THEME[name]})`
+
+/** Inline style declaring the given theme values, for the component's root. */
+export function themeStyle(theme: Partial<ThemeVars>): React.CSSProperties {
+    const style: Record<string, string> = {}
+    Object.entries(theme).forEach(([name, value]) => {
+        if (typeof value === "string" && name in DEFAULT_THEME) style[cssName(name as keyof ThemeVars)] = value
+    })
+    return style as React.CSSProperties
+}
+
+/** The fields of Streamlit's theme object (`ComponentProps.theme`) used here. */
+export interface HostTheme {
+    base?: string
+    primaryColor?: string
+    backgroundColor?: string
+    secondaryBackgroundColor?: string
+    textColor?: string
+    font?: string
+}
+
+/** Theme values matching a Streamlit app's theme, with darker controls for a dark base. */
+export function hostTheme(host: HostTheme): Partial<ThemeVars> {
+    const theme: Partial<ThemeVars> = {
+        text: host.textColor,
+        surface: host.backgroundColor,
+        subtle: host.secondaryBackgroundColor,
+        primary: host.primaryColor,
+        font: host.font,
+    }
+    if (host.base === "dark") {
+        Object.assign(theme, {
+            border: "rgba(250, 250, 250, 0.2)",
+            muted: "rgba(250, 250, 250, 0.6)",
+            button: "#555",
+            highlight: "#7a6a00",
+            warning: "#ffa726",
+            warning_bg: "#3d3212",
+            warning_border: "#a07c2c",
+        })
+    }
+    // Unset fields keep their defaults
+    ;(Object.keys(theme) as (keyof ThemeVars)[]).forEach(key => theme[key] === undefined && delete theme[key])
+    return theme
+}
@@ -0,0 +1,50 @@
+import { Token, moveByToken, nearestTokenEdge, normalizeTokens, snapToTokens } from "./tokens"
+
+// "New York's mayor."
+const tokens: Token[] = [
+    { text: "New", start: 0, end: 3, ws: true },
+    { text: "York", start: 4, end: 8 },
+    { text: "'s", start: 8, end: 10, ws: true },
+    { text: "mayor", start: 11, end: 16 },
+    { text: ".", start: 16, end: 17 },
+]
+
+test("normalizeTokens sorts tokens and drops empty ones", () => {
+    const shuffled = [tokens[2], { text: "", start: 5, end: 5 }, tokens[0], tokens[1]]
+    expect(normalizeTokens(shuffled)).toEqual([tokens[0], tokens[1], tokens[2]])
+})
+
+describe("snapToTokens", () => {
+    test("widens a range to the tokens it touches", () => {
+        expect(snapToTokens(tokens, 1, 6)).toEqual({ start: 0, end: 8, token_start: 0, token_end: 2 })
+        expect(snapToTokens(tokens, 9, 17)).toEqual({ start: 8, end: 17, token_start: 2, token_end: 5 })
+    })
+
+    test("returns null for whitespace between tokens", () => {
+        expect(snapToTokens(tokens, 3, 4)).toBeNull()
+        expect(snapToTokens(tokens, 17, 20)).toBeNull()
+    })
+})
+
+test("nearestTokenEdge picks the closest start or end", () => {
+    expect(nearestTokenEdge(tokens, 6, "start")).toBe(4)
+    expect(nearestTokenEdge(tokens, 6, "end")).toBe(8)
+    expect(nearestTokenEdge(tokens, 15, "start")).toBe(16)
+    expect(nearestTokenEdge([], 6, "end")).toBe(6)
+})
+
+describe("moveByToken", () => {
+    test("moves an edge by one token", () => {
+        expect(moveByToken(tokens, 4, 8, "start", "left")).toBe(0)
+        expect(moveByToken(tokens, 0, 8, "start", "right")).toBe(4)
+        expect(moveByToken(tokens, 0, 10, "end", "left")).toBe(8)
+        expect(moveByToken(tokens, 4, 8, "end", "right")).toBe(10)
+    })
+
+    test("never empties the span or leaves the text", () => {
+        expect(moveByToken(tokens, 4, 8, "start", "right")).toBe(4)
+        expect(moveByToken(tokens, 4, 8, "end", "left")).toBe(8)
+        expect(moveByToken(tokens, 0, 3, "start", "left")).toBe(0)
+        expect(moveByToken(tokens, 16, 17, "end", "right")).toBe(17)
+    })
+})
@@ -0,0 +1,84 @@
+/** A spaCy-style token: its text, character offsets and trailing-whitespace flag. */
+export interface Token {
+    text: string
+    start: number    // inclusive
+    end: number      // exclusive
+    ws?: boolean
+}
+
+/** A character range aligned to whole tokens, plus the token indices it covers. */
+export interface TokenRange {
+    start: number
+    end: number
+    token_start: number    // inclusive
+    token_end: number      // exclusive, so doc[token_start:token_end] in spaCy
+}
+
+/** Sort tokens by offset and drop empty ones, so the helpers below can rely on order. */
+export function normalizeTokens(tokens: Token[]): Token[] {
+    return tokens
+        .filter(t => t.end > t.start)
+        .sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Expand the character range [start, end) to the tokens it touches.
+ * Returns null when the range only covers text between tokens (e.g. whitespace).
+ */
+export function snapToTokens(tokens: Token[], start: number, end: number): TokenRange | null {
+    let first = -1
+    let last = -1
+    for (let i = 0; i < tokens.length; i++) {
+        const t = tokens[i]
+        if (t.start >= end) break
+        if (t.end > start) {
+            if (first < 0) first = i
+            last = i
+        }
+    }
+    if (first < 0) return null
+    return {
+        start: tokens[first].start,
+        end: tokens[last].end,
+        token_start: first,
+        token_end: last + 1,
+    }
+}
+
+/** The token start (or end, for an end edge) closest to the character offset `at`; `at` itself without tokens. */
+export function nearestTokenEdge(tokens: Token[], at: number, edge: "start" | "end"): number {
+    if (!tokens.length) return at
+    let best = edge === "start" ? tokens[0].start : tokens[0].end
+    tokens.forEach(t => {
+        const candidate = edge === "start" ? t.start : t.end
+        if (Math.abs(candidate - at) < Math.abs(best - at)) best = candidate
+    })
+    return best
+}
+
+/**
+ * Move one edge of a token-aligned span by a single token.
+ * Returns the new character offset for that edge; never lets the span become empty.
+ */
+export function moveByToken(
+    tokens: Token[],
+    start: number,
+    end: number,
+    edge: "start" | "end",
+    dir: "left" | "right"
+): number {
+    const range = snapToTokens(tokens, start, end)
+    if (!range) return edge === "start" ? start : end
+    const { token_start, token_end } = range
+
+    if (edge === "start") {
+        if (dir === "left") {
+            return token_start > 0 ? tokens[token_start - 1].start : range.start
+        }
+        return token_start + 1 < token_end ? tokens[token_start + 1].start : range.start
+    }
+    if (dir === "left") {
+        return token_end - 1 > token_start ? tokens[token_end - 2].end : range.end
+    }
+    return token_end < tokens.length ? tokens[token_end].end : range.end
+}
@@ -0,0 +1,134 @@
+import { Relation } from "./relations"
+import { ThemeVars } from "./theme"
+import { SyncPolicy } from "./sync"
+import { Token } from "./tokens"
+
+/**
+ * How to treat spans that don't fit the text or labels:
+ * - "drop":  reject anything invalid
+ * - "clamp": fix offsets (round, clamp to the text) and label casing, reject the rest
+ * - "keep":  as "clamp", but also keep spans whose label isn't in `labels`
+ */
+export type ValidationPolicy = "drop" | "clamp" | "keep"
+
+/** Review state of a span; only tracked when `options.review` is on. */
+export type SpanStatus = "pending" | "accepted" | "rejected" | "modified" | "added"
+
+/**
+ * How a candidate span relates to the other annotators' spans, in comparison mode:
+ * - "agree":    every annotator has exactly this span
+ * - "label":    another annotator has the same offsets with a different label
+ * - "boundary": another annotator has an overlapping span with the same label but other offsets
+ * - "partial":  some, not all, annotators have exactly this span, and nobody disagrees
+ * - "unique":   only one annotator has it, and nobody disagrees
+ */
+export type AgreementStatus = "agree" | "label" | "boundary" | "partial" | "unique"
+
+/**
+ * Each span references character offsets in the text.
+ * Any extra fields (e.g. `id`, `source`) are kept as-is and returned unchanged.
+ */
+export interface Span {
+    start_token: number    // inclusive
+    end_token: number      // exclusive
+    label: string
+    render_slot?: number
+    token_start?: number   // inclusive, only set when `tokens` are supplied
+    token_end?: number     // exclusive
+    score?: number         // model confidence in [0, 1]
+    comment?: string       // free-text note from the annotator
+    kb_id?: string         // entity-link ID, as in spaCy's `Span.kb_id_`
+    status?: SpanStatus
+    annotators?: string[]          // comparison mode: who annotated this span
+    agreement?: AgreementStatus    // comparison mode
+    [field: string]: unknown
+}
+
+/** An entry of the label taxonomy; plain strings in `labels` are read as `{ name }`. */
+export interface LabelDef {
+    name: string
+    description?: string   // shown as a tooltip
+    color?: string
+    hotkey?: string
+    parent?: string        // name of the label this one is grouped under
+}
+
+/** Schema rules for spans, passed as `options.constraints`. */
+export interface SpanConstraints {
+    overlap?: "allow" | "nested" | "forbid"    // globally: any overlap, nesting only, or none
+    allow_overlap?: [string, string][]         // label pairs that may overlap anyway ("*" = any label)
+    forbid_overlap?: [string, string][]        // label pairs that may not overlap; wins over allow_overlap
+    forbid_duplicates?: boolean                // same offsets and label; also blocks creating them
+    trim?: "whitespace" | "punctuation"        // trim new selections at the edges
+    max_length?: number                        // in characters
+    required_labels?: string[]                 // each must be used at least once
+    block_submit?: boolean                     // no Submit while anything is violated
+}
+
+/** A dictionary entry proposing spans wherever `pattern` occurs. */
+export interface GazetteerEntry {
+    pattern: string
+    label: string
+    regex?: boolean             // `pattern` is a regular expression
+    case_sensitive?: boolean
+    whole_word?: boolean        // default true: no matches inside words
+}
+
+/** Display and behavior options, passed as `options`. */
+export interface RendererOptions {
+    colors?: Record<string, string>
+    top_offset?: number
+    span_label_offset?: number
+    top_offset_step?: number
+    history_limit?: number
+    hotkeys?: Record<string, string>    // label → key; defaults to 1–9 in `labels` order
+    show_hotkey_legend?: boolean
+    show_label_legend?: boolean    // colors, hotkeys and descriptions of the labels
+    score_threshold?: number    // spans scoring below this get a dashed slice
+    review?: boolean            // incoming spans start "pending" until accepted or rejected
+    submit_only?: boolean       // report the value only when Submit is pressed
+    validation?: ValidationPolicy
+    constraints?: SpanConstraints
+    gazetteer?: GazetteerEntry[]    // matches become pending suggestions
+    mode?: "view" | "edit"      // "view" only displays the spans
+    direction?: "ltr" | "rtl" | "auto"    // "auto" (default) follows the first strong character
+    click_to_select?: boolean   // start with "click a word to add a span" on
+    span_list?: "side" | "bottom"    // a list of all spans with per-label counts, beside or below the text
+    autosave?: boolean          // keep unsubmitted edits in browser storage; on by default
+    arc_placement?: "above" | "below"    // where relation arcs are drawn; "above" by default
+    sync?: SyncPolicy           // what new `text`/`spans` arguments do to local edits; "reset" by default
+    theme?: Partial<ThemeVars>  // over the host's theme (e.g. Streamlit's)
+    template?: SpanTemplate
+}
+
+/**
+ * displaCy-style markup with `{placeholder}`s: `span` wraps a run of text
+ * ({text}, {total_height}, {span_slices}, {span_starts}), `slice` draws a span's
+ * bar ({bg}, {top_offset}, {label}) and `start` its label ({bg}, {top_offset},
+ * {label}, {kb_id}, {kb_link}, {score}). Only `slice` applies in edit mode,
+ * where the label bubbles carry the editing controls.
+ */
+export interface SpanTemplate {
+    span?: string
+    slice?: string
+    start?: string
+}
+
+/** Our local version tracks editing state. */
+export interface EditableSpan extends Span {
+    span_id: number
+    editing?: boolean
+    tempLabel?: string
+    tempComment?: string
+    tempKbId?: string
+}
+
+/** One entry of a document queue; `spans`, `tokens` and `relations` work as for a single text. */
+export interface QueueDocument {
+    id: string
+    text: string
+    spans?: Span[]
+    tokens?: Token[]
+    relations?: Relation[]
+    annotations?: Record<string, Span[]>
+}
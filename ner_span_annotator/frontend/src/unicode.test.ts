@@ -0,0 +1,84 @@
+import { ceilGrapheme, convertOffsets, detectDirection, floorGrapheme, graphemeBoundaries, offsetMap } from "./unicode"
+
+const THUMBS_UP = "\u{1F44D}\u{1F3FD}"                     // with a skin tone: 4 code units, 2 code points
+const FAMILY = "\u{1F468}\u200D\u{1F469}\u200D\u{1F467}"   // joined by ZWJs: 8 code units, 5 code points
+const E_ACUTE = "e\u0301"                                  // a combining accent
+
+describe("offsetMap", () => {
+    test("is the identity for text without astral characters", () => {
+        const map = offsetMap("Ça va, שלום")
+        expect(map.trivial).toBe(true)
+        expect(map.length).toBe(11)
+        expect(map.toUnits(5)).toBe(5)
+    })
+
+    test("converts between code points and code units around emoji", () => {
+        // "a😀b😀" — Python indexes b at 2, JavaScript at 3
+        const map = offsetMap("a\u{1F600}b\u{1F600}")
+        expect(map.trivial).toBe(false)
+        expect(map.length).toBe(4)
+        expect([0, 1, 2, 3, 4].map(map.toUnits)).toEqual([0, 1, 3, 4, 6])
+        expect([0, 1, 2, 3, 4, 5, 6].map(map.toCodePoints)).toEqual([0, 1, 1, 2, 3, 3, 4])
+    })
+
+    test("keeps offsets outside the text outside it", () => {
+        const map = offsetMap("\u{1F600}")
+        // One past the end, either way
+        expect(map.toUnits(2)).toBe(3)
+        expect(map.toCodePoints(3)).toBe(2)
+        expect(map.toUnits(-1)).toBe(-1)
+        expect(map.toCodePoints(1.5)).toBe(1.5)
+    })
+})
+
+test("convertOffsets converts the given keys and leaves anything else", () => {
+    const double = (n: number) => n * 2
+    expect(convertOffsets([{ start: 1, end: 2, label: "X" }, null], double, ["start", "end"])).toEqual([
+        { start: 2, end: 4, label: "X" },
+        null,
+    ])
+    expect(convertOffsets("not a list", double, ["start", "end"])).toBe("not a list")
+})
+
+describe("graphemeBoundaries", () => {
+    const text = `a${THUMBS_UP}${FAMILY}${E_ACUTE}!`
+
+    test("keeps emoji sequences and combining marks whole", () => {
+        expect(graphemeBoundaries(text)).toEqual([0, 1, 5, 13, 15, 16])
+    })
+
+    test("does the same without Intl.Segmenter", () => {
+        const intl = Intl as any
+        const Segmenter = intl.Segmenter
+        delete intl.Segmenter
+        try {
+            // A different string, so the cached result isn't reused
+            expect(graphemeBoundaries(`${text} `)).toEqual([0, 1, 5, 13, 15, 16, 17])
+            expect(graphemeBoundaries("\u0645\u064E\u0631\u0652")).toEqual([0, 2, 4])
+        } finally {
+            intl.Segmenter = Segmenter
+        }
+    })
+
+    test("snaps offsets to the enclosing boundaries", () => {
+        const bounds = graphemeBoundaries(text)
+        expect(floorGrapheme(bounds, 3)).toBe(1)
+        expect(ceilGrapheme(bounds, 3)).toBe(5)
+        expect(floorGrapheme(bounds, 5)).toBe(5)
+        expect(ceilGrapheme(bounds, 14)).toBe(15)
+    })
+})
+
+describe("detectDirection", () => {
+    test("follows the first strongly directional character", () => {
+        expect(detectDirection("שלום world")).toBe("rtl")
+        expect(detectDirection("Hello שלום")).toBe("ltr")
+        expect(detectDirection("123 — مرحبا")).toBe("rtl")
+        expect(detectDirection("«日本語»")).toBe("ltr")
+    })
+
+    test("defaults to left-to-right", () => {
+        expect(detectDirection("")).toBe("ltr")
+        expect(detectDirection("123 !?")).toBe("ltr")
+    })
+})
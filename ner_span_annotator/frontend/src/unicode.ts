@@ -0,0 +1,134 @@
+/**
+ * Offsets inside the component index the JavaScript string (UTF-16 code units);
+ * offsets going in and out count code points, like Python's `str`. They only
+ * differ after characters outside the BMP, such as most emoji.
+ */
+export interface OffsetMap {
+    trivial: boolean                      // no such characters: both conversions are identities
+    length: number                        // the text's length in code points
+    toUnits: (codePoint: number) => number
+    toCodePoints: (unit: number) => number
+}
+
+const SURROGATE = /[\uD800-\uDFFF]/
+const identity = (n: number) => n
+
+/**
+ * Conversions for `text`. Offsets past the end keep their distance to it, so
+ * they stay out of range; anything else outside the text is passed through.
+ */
+export function offsetMap(text: string): OffsetMap {
+    if (!SURROGATE.test(text)) {
+        return { trivial: true, length: text.length, toUnits: identity, toCodePoints: identity }
+    }
+    const units: number[] = []           // code point index → code unit offset
+    const codePoints: number[] = []      // code unit offset → index of the code point it is in
+    for (let u = 0; u < text.length; ) {
+        const size = (text.codePointAt(u) as number) > 0xffff ? 2 : 1
+        units.push(u)
+        for (let k = 0; k < size; k++) codePoints.push(units.length - 1)
+        u += size
+    }
+    units.push(text.length)
+    codePoints.push(units.length - 1)
+    const length = units.length - 1
+    const inRange = (n: number, max: number) => Number.isInteger(n) && n >= 0 && n <= max
+    return {
+        trivial: false,
+        length,
+        toUnits: cp => (inRange(cp, length) ? units[cp] : cp > length ? cp - length + text.length : cp),
+        toCodePoints: u => (inRange(u, text.length) ? codePoints[u] : u > text.length ? u - text.length + length : u),
+    }
+}
+
+/**
+ * Input spans (or tokens) with `start_token`/`end_token` (or `start`/`end`)
+ * converted; whatever isn't a list of dicts with numbers is left for validation.
+ */
+export function convertOffsets<T>(items: T, convert: (offset: number) => number, keys: [string, string]): T {
+    if (!Array.isArray(items)) return items
+    return items.map(item => {
+        if (typeof item !== "object" || item === null) return item
+        const out = { ...item }
+        keys.forEach(key => typeof out[key] === "number" && (out[key] = convert(out[key])))
+        return out
+    }) as unknown as T
+}
+
+// Code points that never start a user-perceived character: combining marks (Latin,
+// Hebrew, Arabic, Devanagari, Thai), joiners, variation selectors and skin tones
+const EXTENDING = new RegExp(
+    "^(?:[\\u0300-\\u036F\\u0483-\\u0489\\u0591-\\u05BD\\u05BF\\u05C1\\u05C2\\u05C4\\u05C5\\u05C7" +
+        "\\u0610-\\u061A\\u064B-\\u065F\\u0670\\u06D6-\\u06DC\\u06DF-\\u06E4\\u06E7\\u06E8\\u06EA-\\u06ED" +
+        "\\u0900-\\u0903\\u093A-\\u094F\\u0951-\\u0957\\u0962\\u0963\\u0E31\\u0E34-\\u0E3A\\u0E47-\\u0E4E" +
+        "\\u1AB0-\\u1AFF\\u1DC0-\\u1DFF\\u200C\\u200D\\u20D0-\\u20FF\\uFE00-\\uFE0F\\uFE20-\\uFE2F]" +
+        "|\\uD83C[\\uDFFB-\\uDFFF]|\\uDB40[\\uDD00-\\uDDEF])$"
+)
+const ZWJ = "\u200D"
+
+let cached: { text: string; bounds: number[] } | null = null
+
+/**
+ * Sorted offsets where user-perceived characters (grapheme clusters) start,
+ * plus `text.length`. Uses `Intl.Segmenter` where available; otherwise code
+ * points, with marks, joiners and modifiers kept on the preceding character.
+ */
+export function graphemeBoundaries(text: string): number[] {
+    if (cached && cached.text === text) return cached.bounds
+    const bounds: number[] = []
+    if (typeof Intl !== "undefined" && "Segmenter" in Intl) {
+        const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" })
+        for (const { index } of Array.from(segmenter.segment(text))) bounds.push(index)
+    } else {
+        let joined = false
+        for (let u = 0; u < text.length; ) {
+            const char = String.fromCodePoint(text.codePointAt(u) as number)
+            if (!bounds.length || (!joined && !EXTENDING.test(char))) bounds.push(u)
+            joined = char === ZWJ
+            u += char.length
+        }
+    }
+    bounds.push(text.length)
+    cached = { text, bounds }
+    return bounds
+}
+
+/** The last boundary at or before `offset`. */
+export function floorGrapheme(bounds: number[], offset: number): number {
+    let lo = 0
+    let hi = bounds.length - 1
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1
+        if (bounds[mid] <= offset) lo = mid
+        else hi = mid - 1
+    }
+    return Math.min(bounds[lo], offset)
+}
+
+/** The first boundary at or after `offset`. */
+export function ceilGrapheme(bounds: number[], offset: number): number {
+    let lo = 0
+    let hi = bounds.length - 1
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1
+        if (bounds[mid] >= offset) hi = mid
+        else lo = mid + 1
+    }
+    return Math.max(bounds[lo], offset)
+}
+
+// Hebrew, Arabic, Syriac, Thaana, NKo, Samaritan, Mandaic, their presentation
+// forms, and the RTL scripts of the supplementary planes
+const RTL_CHAR = /^(?:[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]|\uD802[\uDC00-\uDFFF]|\uD83A[\uDC00-\uDFFF])$/
+const LTR_CHAR = /^[A-Za-z\u00C0-\u02B8\u0370-\u052F\u0900-\u0FFF\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF]$/
+
+/** The direction of the first strongly directional character, like `dir="auto"`. */
+export function detectDirection(text: string): "ltr" | "rtl" {
+    for (let u = 0; u < text.length; ) {
+        const char = String.fromCodePoint(text.codePointAt(u) as number)
+        if (RTL_CHAR.test(char)) return "rtl"
+        if (LTR_CHAR.test(char)) return "ltr"
+        u += char.length
+    }
+    return "ltr"
+}
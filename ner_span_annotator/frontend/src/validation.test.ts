@@ -0,0 +1,189 @@
+import { validateDocuments, validateSpans, validateTokens } from "./validation"
+import { Token } from "./tokens"
+import { convertOffsets, offsetMap } from "./unicode"
+
+const TEXT = "New York's mayor."
+const LABELS = ["LOC", "PER"]
+
+/** Each issue as [input position, action, message]. */
+const issues = (result: { issues: { index?: number; action: string; message: string }[] }) =>
+    result.issues.map(i => [i.index, i.action, i.message])
+
+describe("validateSpans", () => {
+    test("loads valid spans unchanged", () => {
+        const spans = [{ start_token: 0, end_token: 8, label: "LOC", id: 7 }]
+        expect(validateSpans(spans, TEXT, LABELS, null)).toEqual({ spans, indices: [0], issues: [] })
+    })
+
+    test("drops what can't be loaded", () => {
+        const result = validateSpans(
+            [
+                "New York",
+                { start_token: 0, end_token: 8 },
+                { start_token: "0", end_token: 8, label: "LOC" },
+                { start_token: 5, end_token: 5, label: "LOC" },
+                { start_token: 0, end_token: 8, label: "ORG" },
+                { start_token: 0, end_token: 8, label: "LOC" },
+                { start_token: 0, end_token: 8, label: "LOC" },
+            ],
+            TEXT,
+            LABELS,
+            null
+        )
+        expect(result.indices).toEqual([5])
+        expect(issues(result)).toEqual([
+            [0, "dropped", "expected a dict, got string"],
+            [1, "dropped", "missing label"],
+            [2, "dropped", "start_token and end_token must be numbers"],
+            [3, "dropped", "end_token 5 must be greater than start_token 5"],
+            [4, "dropped", 'unknown label "ORG"'],
+            [6, "dropped", "duplicate of span #5"],
+        ])
+    })
+
+    test("fixes offsets and labels under the clamp policy", () => {
+        const result = validateSpans(
+            [
+                { start_token: -2, end_token: 8.4, label: "loc" },
+                { start_token: 11, end_token: 40, label: "PER" },
+            ],
+            TEXT,
+            LABELS,
+            null,
+            "clamp"
+        )
+        expect(result.spans.map(s => [s.start_token, s.end_token, s.label])).toEqual([
+            [0, 8, "LOC"],
+            [11, 17, "PER"],
+        ])
+        expect(issues(result).map(([index, action]) => [index, action])).toEqual([
+            [0, "clamped"],
+            [0, "clamped"],
+            [0, "fixed"],
+            [1, "clamped"],
+        ])
+    })
+
+    test("reports spans widened to token boundaries", () => {
+        const tokens: Token[] = [
+            { text: "New", start: 0, end: 3 },
+            { text: "York", start: 4, end: 8 },
+            { text: "'s", start: 8, end: 10 },
+        ]
+        const result = validateSpans(
+            [
+                { start_token: 0, end_token: 8, label: "LOC" },
+                { start_token: 1, end_token: 6, label: "LOC" },
+                { start_token: 3, end_token: 4, label: "PER" },
+            ],
+            TEXT,
+            LABELS,
+            tokens
+        )
+        expect(result.spans.map(s => [s.start_token, s.end_token])).toEqual([[0, 8]])
+        expect(issues(result)).toEqual([
+            [1, "fixed", "offsets widened to token boundaries (0–8)"],
+            [1, "dropped", "duplicate of span #0"],
+            [2, "dropped", "span does not cover any token"],
+        ])
+    })
+})
+
+describe("validateDocuments", () => {
+    test("keeps documents with a text, ids defaulting to their position", () => {
+        const { documents, issues } = validateDocuments([{ id: 7, text: "a", spans: [] }, { text: "b" }])
+        expect(documents).toEqual([
+            { id: "7", text: "a", spans: [] },
+            { id: "1", text: "b" },
+        ])
+        expect(issues).toEqual([])
+    })
+
+    test("drops what isn't a document, and duplicate ids", () => {
+        const result = validateDocuments(["text", null, { id: "a" }, { id: "a", text: "x" }, { id: "a", text: "y" }])
+        expect(result.documents).toEqual([{ id: "a", text: "x" }])
+        expect(issues(result)).toEqual([
+            [0, "dropped", "expected a dict, got string"],
+            [1, "dropped", "expected a dict, got null"],
+            [2, "dropped", "document has no text"],
+            [4, "dropped", 'duplicate id "a"'],
+        ])
+    })
+
+    test("ignores anything but a list", () => {
+        expect(issues(validateDocuments({ text: "a" }))).toEqual([[undefined, "ignored", "expected a list, got object"]])
+    })
+})
+
+describe("validateSpans with emoji and right-to-left text", () => {
+    // "שלום 👋 עולם": 11 code points, 12 UTF-16 code units
+    const text = "\u05E9\u05DC\u05D5\u05DD \u{1F44B} \u05E2\u05D5\u05DC\u05DD"
+    const { toUnits } = offsetMap(text)
+    // Spans come in with code point offsets, as the component converts them
+    const check = (spans: object[], policy?: "clamp") =>
+        validateSpans(convertOffsets(spans, toUnits, ["start_token", "end_token"]), text, LABELS, null, policy)
+
+    test("loads spans after the emoji at their UTF-16 offsets", () => {
+        const result = check([
+            { start_token: 7, end_token: 11, label: "LOC" },
+            { start_token: 5, end_token: 6, label: "PER" },
+        ])
+        expect(result.spans.map(s => text.slice(s.start_token, s.end_token))).toEqual(["\u05E2\u05D5\u05DC\u05DD", "\u{1F44B}"])
+        expect(result.issues).toEqual([])
+    })
+
+    test("rejects offsets past the end, quoting code points", () => {
+        const result = check([
+            { start_token: 7, end_token: 12, label: "LOC" },
+            { start_token: 6, end_token: 6, label: "LOC" },
+        ])
+        expect(result.spans).toEqual([])
+        expect(issues(result)).toEqual([
+            [0, "dropped", "offsets 7–12 outside the text (0–11)"],
+            [1, "dropped", "end_token 6 must be greater than start_token 6"],
+        ])
+        expect(issues(check([{ start_token: 7, end_token: 12, label: "LOC" }], "clamp"))).toEqual([
+            [0, "clamped", "offsets clamped to the text (0–11)"],
+        ])
+    })
+})
+
+describe("validateTokens", () => {
+    test("keeps valid tokens as given", () => {
+        const tokens = [
+            { text: "New", start: 0, end: 3, ws: true },
+            { text: "York", start: 4, end: 8 },
+        ]
+        expect(validateTokens(tokens, TEXT)).toEqual({ tokens, issues: [] })
+        expect(validateTokens(undefined, TEXT)).toEqual({ tokens: null, issues: [] })
+    })
+
+    test("reports every token dropped or moved", () => {
+        const result = validateTokens(
+            [
+                { text: "York", start: 4, end: 8 },
+                "New",
+                { text: "New", start: 0, end: 3 },
+                { text: "", start: 3, end: 3 },
+                { text: "'s", start: "8", end: 10 },
+                { text: ".", start: 16, end: 18 },
+                { text: "mayor", start: 11, end: 16 },
+            ],
+            TEXT
+        )
+        expect(result.tokens?.map(t => t.text)).toEqual(["New", "York", "mayor"])
+        expect(issues(result)).toEqual([
+            [1, "dropped", "expected a dict, got string"],
+            [3, "dropped", "empty token"],
+            [4, "dropped", "start and end must be integers"],
+            [5, "dropped", "offsets 16–18 outside the text (0–17)"],
+            [2, "fixed", "token out of order, moved to position 0"],
+            [0, "fixed", "token out of order, moved to position 1"],
+        ])
+    })
+
+    test("leaves token mode off without any valid token", () => {
+        expect(validateTokens(["New", "York"], TEXT).tokens).toBeNull()
+        expect(issues(validateTokens("New York", TEXT))).toEqual([[undefined, "ignored", "expected a list, got string"]])
+    })
+})
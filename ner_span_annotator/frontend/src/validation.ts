@@ -0,0 +1,496 @@
+import { Relation } from "./relations"
+import { Token, snapToTokens } from "./tokens"
+import { GazetteerEntry, LabelDef, QueueDocument, RendererOptions, Span, SpanConstraints, ValidationPolicy } from "./types"
+import { compileQuery } from "./search"
+import { ceilGrapheme, floorGrapheme, graphemeBoundaries, offsetMap } from "./unicode"
+
+const POLICIES: ValidationPolicy[] = ["drop", "clamp", "keep"]
+
+/** One problem found in the component's arguments and what was done about it. */
+export interface ValidationIssue {
+    source: "spans" | "labels" | "options" | "relations" | "relation_labels" | "documents" | "annotations" | "tokens"
+    annotator?: string   // whose spans, for "annotations"
+    index?: number       // position in the input list
+    item?: unknown       // the offending input value
+    message: string
+    action: "dropped" | "clamped" | "fixed" | "kept" | "ignored"
+}
+
+/** Expected `typeof` for every option; anything else is ignored with a warning. */
+const OPTION_TYPES: Record<keyof RendererOptions, string> = {
+    colors: "object",
+    top_offset: "number",
+    span_label_offset: "number",
+    top_offset_step: "number",
+    history_limit: "number",
+    hotkeys: "object",
+    show_hotkey_legend: "boolean",
+    show_label_legend: "boolean",
+    score_threshold: "number",
+    review: "boolean",
+    submit_only: "boolean",
+    validation: "string",
+    constraints: "object",
+    gazetteer: "array",
+    mode: "string",
+    direction: "string",
+    click_to_select: "boolean",
+    sync: "string",
+    span_list: "string",
+    autosave: "boolean",
+    arc_placement: "string",
+    theme: "object",
+    template: "object",
+}
+
+/** Allowed values of the string options that take a fixed set. */
+const OPTION_VALUES: Partial<Record<keyof RendererOptions, string[]>> = {
+    validation: POLICIES,
+    mode: ["view", "edit"],
+    direction: ["ltr", "rtl", "auto"],
+    sync: ["reset", "merge", "keep_local"],
+    span_list: ["side", "bottom"],
+    arc_placement: ["above", "below"],
+}
+
+const CONSTRAINT_TYPES: Record<keyof SpanConstraints, string> = {
+    overlap: "string",
+    allow_overlap: "array",
+    forbid_overlap: "array",
+    forbid_duplicates: "boolean",
+    trim: "string",
+    max_length: "number",
+    required_labels: "array",
+    block_submit: "boolean",
+}
+
+const CONSTRAINT_VALUES: Partial<Record<keyof SpanConstraints, string[]>> = {
+    overlap: ["allow", "nested", "forbid"],
+    trim: ["whitespace", "punctuation"],
+}
+
+function describe(value: unknown): string {
+    return value === null ? "null" : Array.isArray(value) ? "array" : typeof value
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+const LABEL_FIELDS: (keyof LabelDef)[] = ["description", "color", "hotkey", "parent"]
+
+/**
+ * Read labels given as names or as `{ name, description, color, hotkey, parent }`.
+ * Drops nameless and duplicate labels, and ignores fields of the wrong type,
+ * unknown parents and parent cycles. `labels` holds the names, `defs` the full entries.
+ */
+export function validateLabels(
+    raw: unknown,
+    source: "labels" | "relation_labels" = "labels"
+): { labels: string[]; defs: LabelDef[]; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = []
+    if (raw === undefined || raw === null) return { labels: [], defs: [], issues }
+    if (!Array.isArray(raw)) {
+        issues.push({ source, item: raw, message: `expected a list, got ${describe(raw)}`, action: "ignored" })
+        return { labels: [], defs: [], issues }
+    }
+    const defs: LabelDef[] = []
+    raw.forEach((item, index) => {
+        const entry = typeof item === "object" && item !== null && !Array.isArray(item) ? (item as Record<string, unknown>) : null
+        const name = entry ? entry.name : item
+        if (typeof name !== "string" || !name) {
+            const message = entry ? "label needs a non-empty name" : "label must be a non-empty string or a dict"
+            issues.push({ source, index, item, message, action: "dropped" })
+            return
+        }
+        if (defs.some(d => d.name === name)) {
+            issues.push({ source, index, item: name, message: `duplicate label "${name}"`, action: "dropped" })
+            return
+        }
+        const def: LabelDef = { name }
+        LABEL_FIELDS.forEach(field => {
+            const value = entry ? entry[field] : undefined
+            if (value === undefined || value === null) return
+            if (typeof value !== "string") {
+                const message = `"${field}" of label "${name}" should be a string, got ${describe(value)}`
+                issues.push({ source, index, item: name, message, action: "ignored" })
+                return
+            }
+            def[field] = value
+        })
+        defs.push(def)
+    })
+
+    // Parents must be other labels, without cycles
+    const byName = new Map(defs.map(d => [d.name, d] as [string, LabelDef]))
+    defs.forEach(def => {
+        if (def.parent === undefined) return
+        const seen = new Set([def.name])
+        let parent: LabelDef | undefined = byName.get(def.parent)
+        while (parent && !seen.has(parent.name)) {
+            seen.add(parent.name)
+            parent = parent.parent === undefined ? undefined : byName.get(parent.parent)
+        }
+        const cycle = parent !== undefined && parent.name === def.name
+        const problem = !byName.has(def.parent) ? `unknown parent "${def.parent}"` : cycle ? "parent cycle" : null
+        if (problem) {
+            issues.push({ source, item: def.name, message: `label "${def.name}": ${problem}`, action: "ignored" })
+            delete def.parent
+        }
+    })
+    return { labels: defs.map(d => d.name), defs, issues }
+}
+
+/** Drop options of the wrong type and flag unknown ones (which are passed through). */
+export function validateOptions(raw: unknown): { options: RendererOptions; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = []
+    if (raw === undefined || raw === null) return { options: {}, issues }
+    if (typeof raw !== "object" || Array.isArray(raw)) {
+        issues.push({ source: "options", item: raw, message: `expected a dict, got ${describe(raw)}`, action: "ignored" })
+        return { options: {}, issues }
+    }
+    const options: Record<string, unknown> = {}
+    Object.entries(raw as Record<string, unknown>).forEach(([key, value]) => {
+        const expected = OPTION_TYPES[key as keyof RendererOptions]
+        if (!expected) {
+            issues.push({ source: "options", item: key, message: `unknown option "${key}"`, action: "ignored" })
+            options[key] = value
+        } else if (value === null || value === undefined) {
+            // treated as "not set"
+        } else if (describe(value) !== expected) {
+            issues.push({
+                source: "options",
+                item: key,
+                message: `option "${key}" should be a ${expected}, got ${describe(value)}`,
+                action: "ignored",
+            })
+        } else if (key === "constraints") {
+            options[key] = validateConstraints(value as Record<string, unknown>, issues)
+        } else if (OPTION_VALUES[key as keyof RendererOptions]?.includes(value as string) === false) {
+            issues.push({
+                source: "options",
+                item: key,
+                message: `option "${key}" must be one of ${OPTION_VALUES[key as keyof RendererOptions]?.join(", ")}`,
+                action: "ignored",
+            })
+        } else if (key === "template" || key === "theme") {
+            // Both map names to strings (markup, CSS values)
+            options[key] = Object.fromEntries(
+                Object.entries(value as Record<string, unknown>).filter(([name, v]) => {
+                    if (typeof v === "string") return true
+                    issues.push({
+                        source: "options",
+                        item: `${key}.${name}`,
+                        message: `"${key}.${name}" should be a string, got ${describe(v)}`,
+                        action: "ignored",
+                    })
+                    return false
+                })
+            )
+        } else {
+            options[key] = value
+        }
+    })
+    return { options: options as RendererOptions, issues }
+}
+
+/** Like `validateOptions`, one level down: drop constraints of the wrong type or value. */
+function validateConstraints(raw: Record<string, unknown>, issues: ValidationIssue[]): SpanConstraints {
+    const constraints: Record<string, unknown> = {}
+    Object.entries(raw).forEach(([key, value]) => {
+        const expected = CONSTRAINT_TYPES[key as keyof SpanConstraints]
+        const allowed = CONSTRAINT_VALUES[key as keyof SpanConstraints]
+        const report = (message: string) =>
+            issues.push({ source: "options", item: `constraints.${key}`, message, action: "ignored" })
+        if (!expected) {
+            report(`unknown constraint "${key}"`)
+        } else if (value === null || value === undefined) {
+            // not set
+        } else if (describe(value) !== expected) {
+            report(`constraint "${key}" should be a ${expected}, got ${describe(value)}`)
+        } else if (allowed && !allowed.includes(value as string)) {
+            report(`constraint "${key}" must be one of ${allowed.join(", ")}`)
+        } else {
+            constraints[key] = value
+        }
+    })
+    return constraints as SpanConstraints
+}
+
+const GAZETTEER_FLAGS: ("regex" | "case_sensitive" | "whole_word")[] = ["regex", "case_sensitive", "whole_word"]
+
+/**
+ * Keep gazetteer entries with a non-empty pattern (a valid regex, if flagged
+ * so) and a label from `labels`; unknown labels are only kept under "keep".
+ */
+export function validateGazetteer(
+    raw: unknown[] | undefined,
+    labels: string[],
+    policy: ValidationPolicy = "drop"
+): { entries: GazetteerEntry[]; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = []
+    const entries: GazetteerEntry[] = []
+    ;(raw ?? []).forEach((item, index) => {
+        const drop = (message: string) =>
+            issues.push({ source: "options", index, item, message: `gazetteer: ${message}`, action: "dropped" })
+        if (typeof item !== "object" || item === null || Array.isArray(item)) {
+            return drop(`expected a dict, got ${describe(item)}`)
+        }
+        const { pattern, label, ...flags } = item as Record<string, unknown>
+        if (typeof pattern !== "string" || !pattern) return drop("entry needs a non-empty pattern")
+        if (typeof label !== "string" || !label) return drop("entry needs a label")
+        if (!labels.includes(label) && policy !== "keep") return drop(`unknown label "${label}"`)
+        const entry: GazetteerEntry = { pattern, label }
+        GAZETTEER_FLAGS.forEach(flag => {
+            if (typeof flags[flag] === "boolean") entry[flag] = flags[flag] as boolean
+        })
+        try {
+            compileQuery(entry)
+        } catch (e) {
+            return drop(`invalid regex /${pattern}/`)
+        }
+        entries.push(entry)
+    })
+    return { entries, issues }
+}
+
+/**
+ * Keep documents that have a text and a unique id; ids are compared as strings
+ * and default to the document's position. Their spans are checked when opened.
+ */
+export function validateDocuments(raw: unknown): { documents: QueueDocument[]; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = []
+    if (!Array.isArray(raw)) {
+        issues.push({ source: "documents", item: raw, message: `expected a list, got ${describe(raw)}`, action: "ignored" })
+        return { documents: [], issues }
+    }
+    const documents: QueueDocument[] = []
+    raw.forEach((item, index) => {
+        if (!isRecord(item)) {
+            issues.push({ source: "documents", index, message: `expected a dict, got ${describe(item)}`, action: "dropped" })
+            return
+        }
+        const { text, id: rawId } = item
+        if (typeof text !== "string") {
+            issues.push({ source: "documents", index, message: "document has no text", action: "dropped" })
+            return
+        }
+        const id = typeof rawId === "string" || typeof rawId === "number" ? String(rawId) : String(index)
+        if (documents.some(d => d.id === id)) {
+            issues.push({ source: "documents", index, item: id, message: `duplicate id "${id}"`, action: "dropped" })
+            return
+        }
+        documents.push({ ...item, id, text })
+    })
+    return { documents, issues }
+}
+
+/**
+ * Keep tokens with integer offsets inside the text, sorted by offset. Every token
+ * dropped or moved is reported, as spans' `token_start`/`token_end` count the tokens
+ * kept. Null when none is left, which leaves token mode off.
+ */
+export function validateTokens(raw: unknown, text: string): { tokens: Token[] | null; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = []
+    if (raw === undefined || raw === null) return { tokens: null, issues }
+    if (!Array.isArray(raw)) {
+        issues.push({ source: "tokens", item: raw, message: `expected a list, got ${describe(raw)}`, action: "ignored" })
+        return { tokens: null, issues }
+    }
+    const { length, toCodePoints: cp } = offsetMap(text)
+    const kept: { token: Token; index: number }[] = []
+    raw.forEach((item, index) => {
+        const drop = (message: string) => issues.push({ source: "tokens", index, item, message, action: "dropped" })
+        if (!isRecord(item)) return drop(`expected a dict, got ${describe(item)}`)
+        const { start, end } = item
+        if (!Number.isInteger(start) || !Number.isInteger(end)) return drop("start and end must be integers")
+        const token = { ...item, start, end } as Token
+        if (token.start < 0 || token.end > text.length) {
+            return drop(`offsets ${cp(token.start)}–${cp(token.end)} outside the text (0–${length})`)
+        }
+        if (token.end <= token.start) return drop("empty token")
+        kept.push({ token, index })
+    })
+    const sorted = [...kept].sort((a, b) => a.token.start - b.token.start)
+    sorted.forEach(({ token, index }, position) => {
+        if (kept[position].index === index) return
+        const message = `token out of order, moved to position ${position}`
+        issues.push({ source: "tokens", index, item: token, message, action: "fixed" })
+    })
+    return { tokens: sorted.length ? sorted.map(k => k.token) : null, issues }
+}
+
+/**
+ * Check incoming spans against the text, labels and (optional) tokenization.
+ * Returns the spans to load, the input position of each (`indices`)
+ * and an issue for every span that was changed or rejected. Offsets are
+ * UTF-16 ones, but messages quote them in code points, as they were passed in.
+ */
+export function validateSpans(
+    raw: unknown,
+    text: string,
+    labels: string[],
+    tokens: Token[] | null,
+    policy: ValidationPolicy = "drop"
+): { spans: Span[]; indices: number[]; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = []
+    if (raw === undefined || raw === null) return { spans: [], indices: [], issues }
+    if (!Array.isArray(raw)) {
+        issues.push({ source: "spans", item: raw, message: `expected a list, got ${describe(raw)}`, action: "ignored" })
+        return { spans: [], indices: [], issues }
+    }
+
+    const lenient = policy !== "drop"
+    const spans: Span[] = []
+    const indices: number[] = []
+    const seen = new Map<string, number>()
+    const { length, toCodePoints: cp } = offsetMap(text)
+
+    raw.forEach((item, index) => {
+        const report = (message: string, action: ValidationIssue["action"]) =>
+            issues.push({ source: "spans", index, item, message, action })
+
+        if (typeof item !== "object" || item === null || Array.isArray(item)) {
+            return report(`expected a dict, got ${describe(item)}`, "dropped")
+        }
+        const span = { ...(item as Span) }
+        if (typeof span.label !== "string") {
+            return report("missing label", "dropped")
+        }
+        if (!Number.isFinite(span.start_token) || !Number.isFinite(span.end_token)) {
+            return report("start_token and end_token must be numbers", "dropped")
+        }
+
+        // Offsets: integers within [0, text.length]
+        if (!Number.isInteger(span.start_token) || !Number.isInteger(span.end_token)) {
+            if (!lenient) return report("offsets must be integers", "dropped")
+            span.start_token = Math.round(span.start_token)
+            span.end_token = Math.round(span.end_token)
+            report("non-integer offsets rounded", "clamped")
+        }
+        if (span.start_token < 0 || span.end_token > text.length) {
+            if (!lenient) {
+                return report(`offsets ${cp(span.start_token)}–${cp(span.end_token)} outside the text (0–${length})`, "dropped")
+            }
+            span.start_token = Math.max(0, span.start_token)
+            span.end_token = Math.min(text.length, span.end_token)
+            report(`offsets clamped to the text (0–${length})`, "clamped")
+        }
+        if (span.end_token <= span.start_token) {
+            const [start, end] = [cp(span.start_token), cp(span.end_token)]
+            return report(`end_token ${end} must be greater than start_token ${start}`, "dropped")
+        }
+
+        // Labels: exact match, then a case-insensitive one
+        if (!labels.includes(span.label)) {
+            const match = labels.find(l => l.toLowerCase() === span.label.toLowerCase())
+            if (match && lenient) {
+                report(`label "${span.label}" matched to "${match}"`, "fixed")
+                span.label = match
+            } else if (policy === "keep") {
+                report(`unknown label "${span.label}"`, "kept")
+            } else {
+                const hint = match ? ` (did you mean "${match}"?)` : ""
+                return report(`unknown label "${span.label}"${hint}`, "dropped")
+            }
+        }
+
+        if (tokens) {
+            const snapped = snapToTokens(tokens, span.start_token, span.end_token)
+            if (!snapped) return report("span does not cover any token", "dropped")
+            if (snapped.start !== span.start_token || snapped.end !== span.end_token) {
+                report(`offsets widened to token boundaries (${cp(snapped.start)}–${cp(snapped.end)})`, "fixed")
+                span.start_token = snapped.start
+                span.end_token = snapped.end
+            }
+        } else {
+            // Widen edges that fall inside an emoji sequence or between a letter and its marks
+            const bounds = graphemeBoundaries(text)
+            const start = floorGrapheme(bounds, span.start_token)
+            const end = ceilGrapheme(bounds, span.end_token)
+            if (start !== span.start_token || end !== span.end_token) {
+                report("offsets widened to whole characters", "fixed")
+                span.start_token = start
+                span.end_token = end
+            }
+        }
+
+        const key = `${span.start_token}:${span.end_token}:${span.label}`
+        const first = seen.get(key)
+        if (first !== undefined) return report(`duplicate of span #${first}`, "dropped")
+        seen.set(key, index)
+        spans.push(span)
+        indices.push(index)
+    })
+
+    return { spans, indices, issues }
+}
+
+/** Check every annotator's spans as `validateSpans` does; issues name the annotator. */
+export function validateAnnotations(
+    raw: unknown,
+    text: string,
+    labels: string[],
+    tokens: Token[] | null,
+    policy: ValidationPolicy = "drop"
+): { sets: Record<string, Span[]>; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = []
+    const sets: Record<string, Span[]> = {}
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+        issues.push({ source: "annotations", item: raw, message: `expected a dict, got ${describe(raw)}`, action: "ignored" })
+        return { sets, issues }
+    }
+    Object.entries(raw as Record<string, unknown>).forEach(([annotator, spans]) => {
+        const checked = validateSpans(spans, text, labels, tokens, policy)
+        sets[annotator] = checked.spans
+        checked.issues.forEach(issue => issues.push({ ...issue, source: "annotations", annotator }))
+    })
+    return { sets, issues }
+}
+
+/**
+ * Check incoming relations: both ends must point at spans that survived
+ * validation (`keptSpans` holds their input positions) and the label must be known.
+ */
+export function validateRelations(
+    raw: unknown,
+    keptSpans: number[],
+    labels: string[],
+    policy: ValidationPolicy = "drop"
+): { relations: Relation[]; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = []
+    if (raw === undefined || raw === null) return { relations: [], issues }
+    if (!Array.isArray(raw)) {
+        issues.push({ source: "relations", item: raw, message: `expected a list, got ${describe(raw)}`, action: "ignored" })
+        return { relations: [], issues }
+    }
+
+    const relations: Relation[] = []
+    const seen = new Set<string>()
+    raw.forEach((item, index) => {
+        const report = (message: string, action: ValidationIssue["action"]) =>
+            issues.push({ source: "relations", index, item, message, action })
+
+        if (typeof item !== "object" || item === null || Array.isArray(item)) {
+            return report(`expected a dict, got ${describe(item)}`, "dropped")
+        }
+        const rel = item as Relation
+        if (typeof rel.label !== "string") return report("missing label", "dropped")
+        for (const end of ["head", "child"] as const) {
+            if (!Number.isInteger(rel[end])) return report(`${end} must be a span index`, "dropped")
+            if (!keptSpans.includes(rel[end])) {
+                return report(`${end} #${rel[end]} is not a loaded span`, "dropped")
+            }
+        }
+        if (rel.head === rel.child) return report("head and child are the same span", "dropped")
+        if (!labels.includes(rel.label)) {
+            if (policy !== "keep") return report(`unknown relation label "${rel.label}"`, "dropped")
+            report(`unknown relation label "${rel.label}"`, "kept")
+        }
+        const key = `${rel.head}:${rel.child}:${rel.label}`
+        if (seen.has(key)) return report("duplicate relation", "dropped")
+        seen.add(key)
+        relations.push({ head: rel.head, child: rel.child, label: rel.label })
+    })
+    return { relations, issues }
+}
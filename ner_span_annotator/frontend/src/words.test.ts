@@ -0,0 +1,74 @@
+import { moveByWord, moveEndLeft, moveEndRight, moveStartLeft, moveStartRight } from "./words"
+
+const text = "Hello, big world"
+//            0123456789012345
+
+describe("moveStartLeft", () => {
+    test("moves to the start of the previous word, punctuation included", () => {
+        expect(moveStartLeft(text, 11)).toBe(7)
+        expect(moveStartLeft(text, 7)).toBe(0)
+    })
+
+    test("moves from inside a word to its start", () => {
+        expect(moveStartLeft(text, 9)).toBe(7)
+    })
+
+    test("stays at the start of the text", () => {
+        expect(moveStartLeft(text, 0)).toBe(0)
+    })
+})
+
+describe("moveStartRight", () => {
+    test("moves to the next word inside the span", () => {
+        expect(moveStartRight(text, 0, 16)).toBe(7)
+        expect(moveStartRight(text, 7, 16)).toBe(11)
+    })
+
+    test("leaves a single-word span as it is", () => {
+        expect(moveStartRight(text, 11, 16)).toBe(11)
+        expect(moveStartRight(text, 7, 11)).toBe(7)
+    })
+})
+
+describe("moveEndLeft", () => {
+    test("moves to the end of the previous word inside the span", () => {
+        expect(moveEndLeft(text, 0, 16)).toBe(10)
+        expect(moveEndLeft(text, 0, 10)).toBe(6)
+    })
+
+    test("doesn't keep trailing whitespace", () => {
+        expect(moveEndLeft(text, 0, 11)).toBe(6)
+    })
+
+    test("leaves a single-word span as it is", () => {
+        expect(moveEndLeft(text, 11, 16)).toBe(16)
+        expect(moveEndLeft(text, 0, 6)).toBe(6)
+    })
+})
+
+describe("moveEndRight", () => {
+    test("moves to the end of the next word", () => {
+        expect(moveEndRight(text, 6)).toBe(10)
+        expect(moveEndRight(text, 10)).toBe(16)
+    })
+
+    test("moves from inside a word to its end", () => {
+        expect(moveEndRight(text, 3)).toBe(6)
+    })
+
+    test("stays at the end of the text", () => {
+        expect(moveEndRight(text, 16)).toBe(16)
+    })
+})
+
+test("moveByWord moves the requested edge", () => {
+    expect(moveByWord(text, 7, 10, "start", "left")).toBe(0)
+    expect(moveByWord(text, 0, 10, "start", "right")).toBe(7)
+    expect(moveByWord(text, 0, 10, "end", "left")).toBe(6)
+    expect(moveByWord(text, 0, 10, "end", "right")).toBe(16)
+})
+
+test("treats line breaks as whitespace", () => {
+    expect(moveEndRight("one\ntwo", 3)).toBe(7)
+    expect(moveStartLeft("one\ntwo", 4)).toBe(0)
+})
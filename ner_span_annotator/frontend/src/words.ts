@@ -0,0 +1,53 @@
+/**
+ * Word-wise boundary moves for text without tokens, the counterpart of
+ * `moveByToken`: a word is a run of non-whitespace characters, punctuation
+ * included. Moves never leave a span empty; one that would is a no-op.
+ */
+
+const isWhitespace = (ch: string) => /\s/.test(ch)
+
+/** The start moved left to the beginning of the previous word. */
+export function moveStartLeft(text: string, start: number): number {
+    if (start <= 0) return start
+    let i = start - 1
+    while (i > 0 && isWhitespace(text[i])) i--
+    while (i > 0 && !isWhitespace(text[i - 1])) i--
+    return i
+}
+
+/** The start moved right to the beginning of the next word inside the span. */
+export function moveStartRight(text: string, start: number, end: number): number {
+    let i = start
+    while (i < end && !isWhitespace(text[i])) i++
+    while (i < end && isWhitespace(text[i])) i++
+    return i < end ? i : start
+}
+
+/** The end moved left to the end of the previous word inside the span. */
+export function moveEndLeft(text: string, start: number, end: number): number {
+    let i = end
+    while (i > start && isWhitespace(text[i - 1])) i--
+    while (i > start && !isWhitespace(text[i - 1])) i--
+    while (i > start && isWhitespace(text[i - 1])) i--
+    return i > start ? i : end
+}
+
+/** The end moved right to the end of the next word. */
+export function moveEndRight(text: string, end: number): number {
+    let i = end
+    while (i < text.length && isWhitespace(text[i])) i++
+    while (i < text.length && !isWhitespace(text[i])) i++
+    return i
+}
+
+/** Move one edge of [start, end) by a word; returns the new offset of that edge. */
+export function moveByWord(
+    text: string,
+    start: number,
+    end: number,
+    edge: "start" | "end",
+    dir: "left" | "right"
+): number {
+    if (edge === "start") return dir === "left" ? moveStartLeft(text, start) : moveStartRight(text, start, end)
+    return dir === "left" ? moveEndLeft(text, start, end) : moveEndRight(text, end)
+}
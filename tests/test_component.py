@@ -0,0 +1,11 @@
+import inspect
+
+from ner_span_annotator import ner_span_annotator
+
+
+def test_positional_arguments_keep_their_original_order():
+    params = inspect.signature(ner_span_annotator).parameters.values()
+    positional = [p.name for p in params if p.kind == p.POSITIONAL_OR_KEYWORD]
+    assert positional == ["name", "text", "spans", "labels", "options", "key", "default"]
+    keyword_only = [p.name for p in params if p.kind == p.KEYWORD_ONLY]
+    assert keyword_only == ["tokens", "relation_labels", "relations", "documents", "annotations"]
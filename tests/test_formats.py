@@ -0,0 +1,145 @@
+import json
+
+from ner_span_annotator.formats import (
+    from_brat,
+    from_conll,
+    from_label_studio,
+    from_prodigy,
+    from_spacy_json,
+    from_tags,
+    read_jsonl,
+    to_brat,
+    to_conll,
+    to_label_studio,
+    to_prodigy,
+    to_spacy_json,
+    to_tags,
+    whitespace_tokens,
+    write_jsonl,
+)
+
+TEXT = "Ada Lovelace met Charles Babbage in London.\nThey wrote notes."
+SPANS = [
+    {"start_token": 0, "end_token": 12, "label": "PER"},
+    {"start_token": 17, "end_token": 32, "label": "PER", "kb_id": "Q46633"},
+    {"start_token": 36, "end_token": 43, "label": "LOC"},
+]
+RELATIONS = [{"head": 0, "child": 1, "label": "MET"}]
+
+
+def offsets(doc):
+    return [(s["start_token"], s["end_token"], s["label"]) for s in doc["spans"]]
+
+
+def test_whitespace_tokens_flags_trailing_spaces():
+    assert whitespace_tokens(" a bc\n") == [
+        {"text": "a", "start": 1, "end": 2, "ws": True},
+        {"text": "bc", "start": 3, "end": 5, "ws": True},
+    ]
+
+
+def test_tags_round_trip_through_bio_and_bilou():
+    text = "Ada Lovelace met Charles Babbage"
+    tokens = whitespace_tokens(text)
+    spans = [
+        {"start_token": 0, "end_token": 12, "label": "PER"},
+        {"start_token": 17, "end_token": 24, "label": "PER"},
+    ]
+    bio, conflicts = to_tags(tokens, spans)
+    assert conflicts == []
+    assert bio == ["B-PER", "I-PER", "O", "B-PER", "O"]
+    bilou, _ = to_tags(tokens, spans, "BILOU")
+    assert bilou == ["B-PER", "L-PER", "O", "U-PER", "O"]
+    assert from_tags(tokens, bio) == spans
+    assert from_tags(tokens, bilou) == spans
+
+
+def test_from_tags_reads_iob1():
+    tokens = whitespace_tokens("Ada Lovelace met Charles Babbage")
+    assert from_tags(tokens, ["I-PER", "I-PER", "O", "I-LOC", "B-LOC"]) == [
+        {"start_token": 0, "end_token": 12, "label": "PER"},
+        {"start_token": 17, "end_token": 24, "label": "LOC"},
+        {"start_token": 25, "end_token": 32, "label": "LOC"},
+    ]
+
+
+def test_to_tags_reports_overlapping_and_misaligned_spans():
+    tokens = whitespace_tokens("Ada Lovelace met Charles Babbage")
+    tags, conflicts = to_tags(tokens, [
+        {"start_token": 4, "end_token": 24, "label": "X"},
+        {"start_token": 17, "end_token": 32, "label": "PER"},
+        {"start_token": 1, "end_token": 3, "label": "Y"},
+    ])
+    assert tags == ["B-Y", "B-X", "I-X", "I-X", "O"]
+    assert [(c["index"], c["reason"]) for c in conflicts] == [(1, "overlap"), (2, "misaligned")]
+
+
+def test_conll_round_trip():
+    data, conflicts = to_conll(TEXT, SPANS)
+    assert conflicts == []
+    assert data.split("\n")[:3] == ["Ada _ _ B-PER", "Lovelace _ _ I-PER", "met _ _ O"]
+    assert "\n\nThey _ _ O\n" in data
+    back = from_conll(data)
+    assert back["text"] == TEXT
+    assert offsets(back) == [(0, 12, "PER"), (17, 32, "PER"), (36, 43, "LOC")]
+
+
+def test_conll_round_trip_in_bilou():
+    data, _ = to_conll(TEXT, SPANS, scheme="BILOU")
+    assert "London. _ _ U-LOC" in data
+    assert offsets(from_conll(data)) == offsets({"spans": SPANS})
+
+
+def test_spacy_json_round_trip():
+    data, conflicts = to_spacy_json(TEXT, SPANS)
+    assert conflicts == []
+    back = from_spacy_json(json.loads(json.dumps(data)))
+    assert back["text"] == TEXT
+    assert back["spans"] == SPANS
+    assert back["tokens"] == whitespace_tokens(TEXT)
+
+
+def test_spacy_json_reads_ents_without_the_span_group():
+    data = {"text": "Ada met", "ents": [{"start": 0, "end": 3, "label": "PER"}]}
+    assert from_spacy_json(data) == {"text": "Ada met", "spans": [{"start_token": 0, "end_token": 3, "label": "PER"}]}
+
+
+def test_brat_round_trip():
+    ann = to_brat(TEXT, SPANS, RELATIONS)
+    assert ann.splitlines()[0] == "T1\tPER 0 12\tAda Lovelace"
+    back = from_brat(TEXT, ann)
+    assert back["spans"] == SPANS
+    assert back["relations"] == RELATIONS
+
+
+def test_brat_splits_spans_at_line_breaks():
+    text = "New\nYork"
+    spans = [{"start_token": 0, "end_token": 8, "label": "LOC", "comment": "two lines"}]
+    ann = to_brat(text, spans)
+    assert ann == "T1\tLOC 0 3;4 8\tNew York\n#1\tAnnotatorNotes T1\ttwo lines\n"
+    assert from_brat(text, ann)["spans"] == spans
+
+
+def test_prodigy_round_trip_through_jsonl():
+    [record] = read_jsonl(write_jsonl([to_prodigy(TEXT, SPANS, relations=RELATIONS)]))
+    assert record["spans"][0]["token_start"] == 0
+    assert record["spans"][0]["token_end"] == 1
+    back = from_prodigy(record)
+    assert back["text"] == TEXT
+    assert offsets(back) == offsets({"spans": SPANS})
+    assert back["relations"] == RELATIONS
+
+
+def test_label_studio_round_trip():
+    back = from_label_studio(to_label_studio(TEXT, SPANS, RELATIONS))
+    assert back["text"] == TEXT
+    assert offsets(back) == offsets({"spans": SPANS})
+    assert back["relations"] == RELATIONS
+
+
+def test_label_studio_falls_back_to_predictions_with_scores():
+    task = {
+        "data": {"text": "Ada met"},
+        "predictions": [{"result": [{"id": "a", "score": 0.9, "value": {"start": 0, "end": 3, "labels": ["PER"]}}]}],
+    }
+    assert from_label_studio(task)["spans"] == [{"start_token": 0, "end_token": 3, "label": "PER", "score": 0.9}]